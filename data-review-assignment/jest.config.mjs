@@ -0,0 +1,14 @@
+import nextJest from "next/jest.js";
+
+// next/jest compiles with the same SWC setup as the app and picks up .env files
+const createJestConfig = nextJest({ dir: "./" });
+
+/** @type {import('jest').Config} */
+const config = {
+  testEnvironment: "jsdom",
+  moduleNameMapper: {
+    "^@/(.*)$": "<rootDir>/$1",
+  },
+};
+
+export default createJestConfig(config);
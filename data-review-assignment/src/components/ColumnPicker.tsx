@@ -0,0 +1,35 @@
+import { COLUMN_LABELS, TABLE_COLUMNS, TableColumn } from "@/src/consts/columns";
+
+interface ColumnPickerProps {
+    columns: TableColumn[]; // The visible ones
+    onChange: (columns: TableColumn[]) => void;
+}
+
+// Dropdown of checkboxes for which columns the table shows. At least one has to stay.
+export default function ColumnPicker({ columns, onChange }: ColumnPickerProps) {
+    const toggle = (column: TableColumn) => {
+        const next = columns.includes(column) ? columns.filter((c) => c !== column) : [...columns, column];
+        onChange(TABLE_COLUMNS.filter((c) => next.includes(c))); // Keep display order
+    };
+
+    return (
+        <details className="relative">
+            <summary className="cursor-pointer px-3 py-1 rounded-md bg-gray-200 hover:bg-gray-300 list-none">
+                Columns ({columns.length}/{TABLE_COLUMNS.length})
+            </summary>
+            <div className="absolute right-0 z-20 mt-1 w-44 p-2 bg-white border border-gray-300 rounded-md shadow-lg space-y-1">
+                {TABLE_COLUMNS.map((column) => (
+                    <label key={column} className="flex items-center gap-2">
+                        <input
+                            type="checkbox"
+                            checked={columns.includes(column)}
+                            disabled={columns.length === 1 && columns.includes(column)}
+                            onChange={() => toggle(column)}
+                        />
+                        {COLUMN_LABELS[column]}
+                    </label>
+                ))}
+            </div>
+        </details>
+    );
+}
@@ -0,0 +1,82 @@
+// The render budget from hooks/useVirtualRows.ts, checked against the real table: however many records a page
+// holds, the body never has more than maxRenderedRows of them in the DOM (plus the two spacer rows).
+
+import { act, fireEvent, render, waitFor } from "@testing-library/react";
+import axios from "axios";
+import DataReviewTable from "@/src/components/DataReviewTable";
+import { maxRenderedRows } from "@/src/hooks/useVirtualRows";
+import { queryRecords } from "@/src/lib/queryRecords";
+import { DEFAULT_TABLE_QUERY } from "@/src/lib/tableQuery";
+import { Record } from "@/src/types/record";
+
+// The table opens on /?pageSize=all, so the whole dataset comes back as one page
+jest.mock("next/router", () => {
+    const router = { isReady: true, pathname: "/", asPath: "/?pageSize=all", query: { pageSize: "all" }, push: jest.fn() };
+    return { __esModule: true, default: router, useRouter: () => router };
+});
+
+const RECORD_COUNT = 50_000;
+const VIEWPORT_HEIGHT = 384; // max-h-96
+const ROW_HEIGHT = 65; // jsdom doesn't lay anything out, so rows keep the table's estimated height
+const BUDGET = maxRenderedRows(VIEWPORT_HEIGHT, ROW_HEIGHT);
+
+const records: Record[] = Array.from({ length: RECORD_COUNT }, (_, index) => ({
+    id: index + 1,
+    name: `Customer ${index + 1}`,
+    email: `customer${index + 1}@example.com`,
+    street: "123 Main St",
+    city: "Houston",
+    zipcode: "77001",
+    phone: "713-555-0100",
+    status: "active",
+    errors: {},
+    score: 100,
+}));
+
+beforeAll(() => {
+    Object.defineProperty(HTMLElement.prototype, "clientHeight", { configurable: true, get: () => VIEWPORT_HEIGHT });
+    global.ResizeObserver = class {
+        observe() {}
+        unobserve() {}
+        disconnect() {}
+    };
+
+    jest.spyOn(axios, "get").mockImplementation(async (url: string) => {
+        if (url === "/api/data") return { data: queryRecords(records, { ...DEFAULT_TABLE_QUERY, sort: [], pageSize: "all" }) };
+        if (url === "/api/datasets") return { data: { datasets: [] } };
+        if (url === "/api/views") return { data: { views: [] } };
+        throw new Error(`Unexpected request to ${url}`);
+    });
+});
+
+afterAll(() => {
+    jest.restoreAllMocks();
+});
+
+const bodyRows = (container: HTMLElement) => Array.from(container.querySelectorAll("tbody tr"));
+const recordRows = (container: HTMLElement) => bodyRows(container).filter((row) => !row.hasAttribute("aria-hidden"));
+
+describe("DataReviewTable render budget", () => {
+    it(`keeps ${RECORD_COUNT} rows down to ${BUDGET} in the DOM, wherever it's scrolled`, async () => {
+        const { container } = render(<DataReviewTable />);
+        await waitFor(() => expect(recordRows(container).length).toBeGreaterThan(0));
+
+        expect(recordRows(container)).toHaveLength(BUDGET);
+        expect(bodyRows(container).length).toBeLessThanOrEqual(BUDGET + 2);
+        expect(recordRows(container)[0].textContent).toContain("customer1@example.com");
+
+        // Halfway down: the rows either side of the viewport, and spacers for everything else
+        const scroller = container.querySelector<HTMLElement>("[tabindex='0']")!;
+        const scrollTop = (RECORD_COUNT / 2) * ROW_HEIGHT;
+        Object.defineProperty(scroller, "scrollTop", { configurable: true, writable: true, value: scrollTop });
+        act(() => {
+            fireEvent.scroll(scroller);
+        });
+
+        const rows = recordRows(container);
+        expect(rows.length).toBeLessThanOrEqual(BUDGET);
+        expect(bodyRows(container).length).toBeLessThanOrEqual(BUDGET + 2);
+        // Overscan (5) rows above the first visible one
+        expect(rows[0].textContent).toContain(`customer${RECORD_COUNT / 2 + 1 - 5}@example.com`);
+    });
+});
@@ -1,55 +1,303 @@
 import { useEffect, useState, useMemo } from "react";
+import Link from "next/link";
 import axios, { AxiosResponse } from "axios";
 import Papa from "papaparse";
+import { BulkAction, BulkResult, FixSuggestion, PaginatedRecords, Record, ReviewCounts } from "@/src/types/record";
+import {
+    DEFAULT_PAGE_SIZE,
+    DEFAULT_TABLE_QUERY,
+    Facet,
+    FacetCounts,
+    PAGE_SIZE_OPTIONS,
+    SortField,
+    TableQuery,
+    toggleFacet,
+    toggleSort,
+    toQueryParams,
+} from "@/src/lib/tableQuery";
+import { COLUMN_LABELS, TABLE_COLUMNS, TableColumn } from "@/src/consts/columns";
+import { EDITABLE_FIELDS, EditableField, VALIDATED_FIELDS } from "@/src/consts/fields";
+import { REVIEW_STATE_LABELS } from "@/src/consts/review";
+import { Severity } from "@/src/consts/severities";
+import { reviewStateOf } from "@/src/lib/review";
+import { errorMessages, fieldErrors, worstSeverity } from "@/src/lib/errors";
+import { highlightTerms, parseSearch } from "@/src/lib/search";
+import { Dataset } from "@/src/types/dataset";
+import { ViewSettings } from "@/src/types/view";
+import ColumnPicker from "./ColumnPicker";
+import EditableCell from "./EditableCell";
+import FilterPanel from "./FilterPanel";
+import FixSuggestions from "./FixSuggestions";
+import HistoryPanel from "./HistoryPanel";
+import ImportDialog from "./ImportDialog";
+import ReviewBadge from "./ReviewBadge";
+import ReviewControls from "./ReviewControls";
+import ReviewProgress from "./ReviewProgress";
+import ScoreBar from "./ScoreBar";
+import SelectionToolbar from "./SelectionToolbar";
+import SeverityIcon from "./SeverityIcon";
+import SortableHeader from "./SortableHeader";
+import ViewSwitcher from "./ViewSwitcher";
+import useReviewer from "@/src/hooks/useReviewer";
+import useTableUrl from "@/src/hooks/useTableUrl";
+import useVirtualRows from "@/src/hooks/useVirtualRows";
 
-interface ValidationError {
-    message: string;
-    severity: "critical" | "warning";
-}
-
-interface Record {
-    id: number;
-    name: string;
-    email: string;
-    street?: string;
-    city?: string;
-    zipcode?: string;
-    phone?: string;
-    status: string;
-    errors?: {
-        email?: ValidationError;
-        phone?: ValidationError;
-        zipcode?: ValidationError;
-        street?: ValidationError;
-    };
-}
+const SEARCH_DEBOUNCE_MS = 300;
+const ESTIMATED_ROW_HEIGHT = 65; // Measured from a real row after the first render
 
 export default function DataReviewTable() {
-    const [records, setRecords] = useState<Record[]>([]);
+    const [records, setRecords] = useState<Record[]>([]); // Only the current page—the server does the filtering now
+    const [query, setQuery] = useState<TableQuery>(DEFAULT_TABLE_QUERY); // Drives every request to /api/data
+    const [pagination, setPagination] = useState<Omit<PaginatedRecords, "records" | "facets" | "reviewProgress">>({ total: 0, page: 1, pageSize: DEFAULT_PAGE_SIZE, pageCount: 1 });
+    const [facetCounts, setFacetCounts] = useState<FacetCounts | null>(null); // Live counts for the filter panel
+    const [reviewProgress, setReviewProgress] = useState<ReviewCounts | null>(null); // Whole dataset, for the progress bar
+    const [notice, setNotice] = useState<string | null>(null); // Feedback from the last bulk action, select-all, export or reopening edit
     const [loading, setLoading] = useState<boolean>(true);
-    const [error, setError] = useState<string | null>(null); // For now, only showing errors for data fetching
+    const [fetching, setFetching] = useState<boolean>(false); // Subsequent page loads keep the table on screen
+    const [error, setError] = useState<string | null>(null); // Only for the page fetch—it replaces the table, so everything else reports through notice
     const [modalData, setModalData] = useState<Record | null>(null); // Handles modal appear when we need to show detailed error summaries
-    const [searchQuery, setSearchQuery] = useState<string>(""); // Filtering the table by search
+    const [modalTab, setModalTab] = useState<"errors" | "history">("errors");
+    const [searchQuery, setSearchQuery] = useState<string>(""); // What's in the search box—pushed into the query after a short pause
     const [hoveredError, setHoveredError] = useState<string | null>(null); // Used for tooltips on validation errors
     const [tooltipPosition, setTooltipPosition] = useState<{ x: number; y: number } | null>(null); // Keeps track of mouse position for the tooltips
+    const [datasets, setDatasets] = useState<Dataset[]>([]); // For the dataset switcher
+    const [importOpen, setImportOpen] = useState<boolean>(false);
+    const [selected, setSelected] = useState<Map<number, Record>>(new Map()); // Survives paging, so it holds the records themselves
+    const [bulkBusy, setBulkBusy] = useState<boolean>(false);
+    const [rejectedFixes, setRejectedFixes] = useState<Set<string>>(new Set()); // "id:field:value" keys the reviewer said no to
+    const [reviewer, setReviewer] = useReviewer(); // Sent with every change for the audit log
+    const [columns, setColumns] = useState<TableColumn[]>([...TABLE_COLUMNS]); // The visible ones, in display order
+
+    const fetchDatasets = async () => {
+        try {
+            const response: AxiosResponse<{ datasets: Dataset[] }> = await axios.get("/api/datasets");
+            setDatasets(response.data.datasets);
+        } catch (err) {
+            console.error(err); // The switcher just stays empty—the table itself still works
+        }
+    };
+
+    useEffect(() => {
+        fetchDatasets();
+    }, []);
+
+    // The query and the open record live in the URL too, so a link shows the same page and back/forward work
+    const urlReady = useTableUrl({
+        query,
+        recordId: modalData?.id,
+        onQueryChange: (next) => {
+            setSearchQuery(next.search); // Already matches the query, so the debounce leaves it alone
+            setQuery(next);
+        },
+        onRecordChange: async (recordId) => {
+            if (recordId === undefined) return setModalData(null);
+            try {
+                const response: AxiosResponse<Record> = await axios.get(`/api/data/${recordId}`);
+                setModalTab("errors");
+                setModalData(response.data);
+            } catch (err) {
+                console.error(err); // A link to a record that's gone just opens nothing
+            }
+        },
+    });
 
-    // Fetch data from backend endpoint (/api/data)
+    // Fetch the current page from the backend endpoint (/api/data) whenever the query changes
     useEffect(() => {
+        const controller = new AbortController(); // Drop responses for queries the user has already moved past
+
         const fetchData = async () => {
+            setFetching(true);
             try {
-                const response: AxiosResponse<{ records: Record[] }> = await axios.get("/api/data");
-                setRecords(response.data.records);
+                const response: AxiosResponse<PaginatedRecords> = await axios.get("/api/data", {
+                    params: toQueryParams(query),
+                    signal: controller.signal,
+                });
+                const { records, facets, reviewProgress, ...meta } = response.data;
+                setRecords(records);
+                setPagination(meta);
+                setFacetCounts(facets);
+                setReviewProgress(reviewProgress);
                 setError(null);  // No issues, reset any previous error messages
             } catch (err) {
+                if (axios.isCancel(err)) return;
                 setError("Error fetching data. Please try again later."); // Keep the user informed if something breaks
                 console.error(err);
             } finally {
-                setLoading(false);
+                if (!controller.signal.aborted) {
+                    setLoading(false);
+                    setFetching(false);
+                }
             }
         };
 
+        if (!urlReady) return; // The first query comes from the URL
         fetchData();
-    }, []);
+        return () => controller.abort();
+    }, [query, urlReady]);
+
+    // Debounce the search box so we don't hit the API on every keystroke
+    useEffect(() => {
+        const timeout = setTimeout(() => {
+            setQuery((current) =>
+                current.search === searchQuery.trim() ? current : { ...current, search: searchQuery.trim(), page: 1 }
+            );
+        }, SEARCH_DEBOUNCE_MS);
+        return () => clearTimeout(timeout);
+    }, [searchQuery]);
+
+    // Only the rows in view get rendered—see hooks/useVirtualRows.ts for the render budget
+    const virtualRows = useVirtualRows({ count: records.length, estimatedRowHeight: ESTIMATED_ROW_HEIGHT });
+    const { scrollToTop } = virtualRows;
+
+    // A new query means a new set of rows, so start at the top again
+    useEffect(() => {
+        scrollToTop();
+    }, [query, scrollToTop]);
+
+    // Parsed once per search so every cell can highlight what matched
+    const searchTerms = useMemo(() => parseSearch(query.search), [query.search]);
+
+    // Any change other than the page itself sends us back to page 1
+    const updateQuery = (changes: Partial<TableQuery>) => {
+        setQuery((current) => ({ ...current, page: 1, ...changes }));
+    };
+
+    // Swap an updated record in everywhere it's shown
+    const replaceRecord = (updated: Record) => {
+        setRecords((current) => current.map((r) => (r.id === updated.id ? updated : r)));
+        setModalData((current) => (current?.id === updated.id ? updated : current)); // Keep an open modal in sync
+        setSelected((current) => (current.has(updated.id) ? new Map(current).set(updated.id, updated) : current));
+    };
+
+    // Save a single edited cell—the API revalidates the record, so we swap in whatever it sends back
+    const saveField = async (record: Record, field: EditableField, value: string) => {
+        const response: AxiosResponse<Record> = await axios.patch(`/api/data/${record.id}`, { [field]: value });
+        replaceRecord(response.data);
+        if (reviewStateOf(record) === "approved" && reviewStateOf(response.data) !== "approved") {
+            setNotice(`Record ${record.id} is back in review—the edit added critical errors`);
+            setQuery((current) => ({ ...current })); // Refetch for the progress bar
+        }
+    };
+
+    // A review move from the modal—refetch as well, since the progress bar and review filter depend on it
+    const handleReviewChange = (updated: Record) => {
+        replaceRecord(updated);
+        setQuery((current) => ({ ...current }));
+    };
+
+    // Hide a suggested fix for the rest of the session
+    const rejectFix = (record: Record, field: string, fix: FixSuggestion) => {
+        setRejectedFixes((current) => new Set(current).add(`${record.id}:${field}:${fix.value}`));
+    };
+
+    // Every record matching the current search and filters, not just the page on screen
+    const fetchAllMatching = async () => {
+        const response: AxiosResponse<PaginatedRecords> = await axios.get("/api/data", {
+            params: toQueryParams({ ...query, page: 1, pageSize: "all" }),
+        });
+        return response.data.records;
+    };
+
+    // Checkbox on a single row
+    const toggleSelected = (record: Record) => {
+        setSelected((current) => {
+            const next = new Map(current);
+            if (next.has(record.id)) next.delete(record.id);
+            else next.set(record.id, record);
+            return next;
+        });
+    };
+
+    // Header checkbox—selects or clears the rows on this page
+    const pageSelected = records.length > 0 && records.every((record) => selected.has(record.id));
+    const togglePageSelected = () => {
+        setSelected((current) => {
+            const next = new Map(current);
+            records.forEach((record) => (pageSelected ? next.delete(record.id) : next.set(record.id, record)));
+            return next;
+        });
+    };
+
+    // "Select all N matching records"—goes beyond the current page, but respects the filters
+    const selectAllMatching = async () => {
+        setBulkBusy(true);
+        setNotice(null);
+        try {
+            const matching = await fetchAllMatching();
+            setSelected(new Map(matching.map((record) => [record.id, record])));
+        } catch (err) {
+            setNotice("Error selecting records. Please try again later.");
+            console.error(err);
+        } finally {
+            setBulkBusy(false);
+        }
+    };
+
+    // Bulk status and review changes go through POST /api/data/bulk so they persist
+    const applyBulkAction = async (action: BulkAction) => {
+        setBulkBusy(true);
+        setNotice(null);
+        try {
+            const response: AxiosResponse<BulkResult> = await axios.post("/api/data/bulk", {
+                ids: Array.from(selected.keys()),
+                action,
+            });
+            const { records: updated, skipped } = response.data;
+            // Skipped records stay selected as they were, so the reviewer can deal with them
+            setSelected((current) => {
+                const next = new Map(updated.map((record) => [record.id, record]));
+                skipped.forEach(({ id }) => current.has(id) && next.set(id, current.get(id)!));
+                return next;
+            });
+            if (skipped.length > 0) {
+                setNotice(`${skipped.length} of ${skipped.length + updated.length} records were skipped: ${skipped[0].error}${skipped.length > 1 ? " (and others)" : ""}`);
+            }
+            setQuery((current) => ({ ...current })); // Refetch—changed statuses may no longer match the filters
+        } catch (err) {
+            setNotice("Error updating records. Please try again later.");
+            console.error(err);
+        } finally {
+            setBulkBusy(false);
+        }
+    };
+
+    // Everything a saved view captures, as it stands right now
+    const currentView: ViewSettings = {
+        search: query.search,
+        filters: query.filters,
+        facets: query.facets,
+        sort: query.sort,
+        pageSize: query.pageSize === "all" ? DEFAULT_PAGE_SIZE : query.pageSize,
+        columns,
+    };
+
+    // Restore a saved view on whichever dataset is open
+    const applyView = ({ columns: viewColumns, ...settings }: ViewSettings) => {
+        setSearchQuery(settings.search); // Already matches the query, so the debounce leaves it alone
+        updateQuery(settings);
+        setColumns(viewColumns);
+    };
+
+    const showColumn = (column: TableColumn) => columns.includes(column);
+
+    // Header clicks—shift-click builds up a multi-column sort
+    const handleSort = (field: SortField, multi: boolean) => {
+        updateQuery({ sort: toggleSort(query.sort, field, multi) });
+    };
+
+    // Facet chips in the filter panel
+    const handleFacetToggle = (facet: Facet, value: string) => {
+        updateQuery({ facets: toggleFacet(query.facets, facet, value) });
+    };
+
+    // Switch over to a freshly imported dataset
+    const openImportedDataset = (dataset: Dataset) => {
+        setImportOpen(false);
+        setSelected(new Map());
+        fetchDatasets();
+        setSearchQuery("");
+        setQuery({ ...DEFAULT_TABLE_QUERY, dataset: dataset.id });
+    };
 
     // Function to flatten the data—so it's parseable and uniform as a CSV
     const flattenRecord = (record: Record) => {
@@ -61,32 +309,35 @@ export default function DataReviewTable() {
             city: record.city || '',
             zipcode: record.zipcode || '',
             phone: record.phone || '',
+            phone_e164: record.normalized?.phone?.e164 || '', // Normalized value right next to the raw one
+            phone_country: record.normalized?.phone?.country || '',
+            phone_line_type: record.normalized?.phone?.lineType || '',
             status: record.status,
+            review_state: REVIEW_STATE_LABELS[reviewStateOf(record)],
+            reviewed_by: record.reviewedBy || '',
+            reviewed_at: record.reviewedAt || '',
+            override_reason: record.overrideReason || '', // Why it was approved despite critical errors
+            merged_from: (record.mergedFrom || []).join(' '), // Ids of the duplicates this record absorbed
+            quality_score: record.score ?? '',
 
-            // Pulling error messages into the CSV output, gotta keep things transparent
-            email_error: record.errors?.email?.message || '',
-            email_severity: record.errors?.email?.severity || '',
-            phone_error: record.errors?.phone?.message || '',
-            phone_severity: record.errors?.phone?.severity || '',
-            zipcode_error: record.errors?.zipcode?.message || '',
-            zipcode_severity: record.errors?.zipcode?.severity || '',
-            street_error: record.errors?.street?.message || '',
-            street_severity: record.errors?.street?.severity || '',
+            // Pulling error messages into the CSV output, gotta keep things transparent. A field can have several errors,
+            // so messages and codes are joined and the severity column holds the worst one.
+            ...Object.fromEntries(
+                VALIDATED_FIELDS.flatMap((field) => {
+                    const errors = fieldErrors(record, field);
+                    return [
+                        [`${field}_error`, errors.map((error) => error.message).join(' | ')],
+                        [`${field}_severity`, worstSeverity(errors) || ''],
+                        [`${field}_codes`, errors.map((error) => error.code).join(' ')],
+                    ];
+                })
+            ),
         };
     };
 
-    // Memoize the filtered data to prevent unnecessary recalculations when not needed
-    const filteredRecords = useMemo(() => {
-        return records.filter(record =>
-            Object.values(record).some(value =>
-                String(value).toLowerCase().includes(searchQuery.toLowerCase())
-            )
-        );
-    }, [records, searchQuery]); // We only want this to run when records or searchQuery change
-
-    // CSV Export function—this needs to work only for the currently filtered records
-    const exportToCSV = () => {
-        const flattenedData = filteredRecords.map(flattenRecord); // Flatten filtered data
+    // Turn records into a CSV download
+    const downloadCSV = (exportRecords: Record[], filename: string) => {
+        const flattenedData = exportRecords.map(flattenRecord); // Flatten the records
         const csv = Papa.unparse(flattenedData); // PapaParse to convert JSON to CSV format
 
         // Create a blob and trigger download—super common CSV download technique
@@ -94,12 +345,23 @@ export default function DataReviewTable() {
         const link = document.createElement("a");
         const url = URL.createObjectURL(blob);
         link.href = url;
-        link.setAttribute("download", "data_export_with_errors.csv");
+        link.setAttribute("download", filename);
         document.body.appendChild(link);
         link.click();
         document.body.removeChild(link);
     };
 
+    // CSV Export function—this needs to work for every filtered record, not just the page on screen
+    const exportToCSV = async () => {
+        setNotice(null);
+        try {
+            downloadCSV(await fetchAllMatching(), "data_export_with_errors.csv");
+        } catch (err) {
+            setNotice("Error exporting data. Please try again later.");
+            console.error(err);
+        }
+    };
+
     // Memoize this to avoid recalculating the status badge on each render
     const getStatusBadge = useMemo(() => (status: string) => {
         let badgeColor = "bg-gray-200 text-gray-700 hover:bg-gray-300"; // Default style
@@ -111,9 +373,11 @@ export default function DataReviewTable() {
     }, []); // This is static, so no dependencies—no need to recalculate this on every render
 
     // Same logic for getting the right color based on severity—no need to rerun this unless severity changes
-    const getFieldColor = useMemo(() => (severity?: "critical" | "warning") => {
+    const getFieldColor = useMemo(() => (severity?: Severity) => {
+        if (severity === "blocker") return "bg-red-600/40 hover:bg-red-600/50 text-red-950";
         if (severity === "critical") return "bg-red-500/20 hover:bg-red-500/30 text-red-900";
         if (severity === "warning") return "bg-yellow-500/20 hover:bg-yellow-500/30 text-yellow-900";
+        if (severity === "info") return "bg-sky-500/20 hover:bg-sky-500/30 text-sky-900";
         return "bg-green-500/20 hover:bg-green-500/30 text-green-900";
     }, []); // No need to recalculate this unless the severity values change
 
@@ -146,58 +410,81 @@ export default function DataReviewTable() {
             >
                 <div className="bg-white rounded-lg shadow-2xl p-6 w-full max-w-lg relative">
                     <h2 className="text-2xl font-bold text-gray-800 mb-4">Error Summary for <span className="italic">{record.name}</span></h2>
+                    {record.mergedFrom && (
+                        <p className="-mt-2 mb-4 text-sm text-gray-600">Merged from records {record.mergedFrom.join(", ")}</p>
+                    )}
 
-                    <div className="border-t border-gray-300 pt-4">
-                        <ul className="space-y-4">
-                            {Object.entries(record.errors || {}).map(([field, error]) => (
-                                <li
-                                    key={field}
-                                    className={`flex items-center space-x-4 p-3 rounded-lg ${getFieldColor(
-                                        error?.severity
-                                    )}`}
-                                >
-                                    {/* Different Icons for Severity */}
-                                    <span>
-                                        {error?.severity === "critical" ? (
-                                            // Critical Error Icon (X icon)
-                                            <svg
-                                                xmlns="http://www.w3.org/2000/svg"
-                                                className="h-6 w-6 text-red-500"
-                                                viewBox="0 0 20 20"
-                                                fill="currentColor"
-                                            >
-                                                <path
-                                                    fillRule="evenodd"
-                                                    d="M10 18a8 8 0 100-16 8 8 0 000 16zm3.707-9.707a1 1 0 00-1.414-1.414L10 8.586 7.707 6.293a1 1 0 10-1.414 1.414L8.586 10l-2.293 2.293a1 1 0 101.414 1.414L10 11.414l2.293 2.293a1 1 0 001.414-1.414L11.414 10l2.293-2.293z"
-                                                    clipRule="evenodd"
-                                                />
-                                            </svg>
-                                        ) : (
-                                            // Warning Icon (Exclamation Mark icon)
-                                            <svg
-                                                xmlns="http://www.w3.org/2000/svg"
-                                                className="h-6 w-6 text-yellow-500"
-                                                viewBox="0 0 20 20"
-                                                fill="currentColor"
-                                            >
-                                                <path
-                                                    fillRule="evenodd"
-                                                    d="M18 10c0 4.418-3.582 8-8 8S2 14.418 2 10 5.582 2 10 2s8 3.582 8 8zm-9 4a1 1 0 102 0v-2a1 1 0 00-2 0v2zm2-7a1 1 0 11-2 0v3a1 1 0 112 0V7z"
-                                                    clipRule="evenodd"
-                                                />
-                                            </svg>
-                                        )}
-                                    </span>
-
-                                    <div>
-                                        <strong className="text-lg font-semibold capitalize">{field}:</strong>
-                                        <p className="text-sm text-gray-700">{error?.message}</p>
-                                    </div>
-                                </li>
-                            ))}
-                        </ul>
+                    <div className="flex gap-4 text-sm font-medium">
+                        {(["errors", "history"] as const).map((tab) => (
+                            <button
+                                key={tab}
+                                onClick={() => setModalTab(tab)}
+                                className={`pb-1 capitalize ${modalTab === tab ? "border-b-2 border-blue-600 text-blue-700" : "text-gray-600"}`}
+                            >
+                                {tab}
+                            </button>
+                        ))}
                     </div>
 
+                    {modalTab === "history" && (
+                        <div className="border-t border-gray-300 pt-4">
+                            <HistoryPanel record={record} />
+                        </div>
+                    )}
+
+                    {modalTab === "errors" && (
+                        <div className="border-t border-gray-300 pt-4">
+                            <ReviewControls record={record} onChange={handleReviewChange} />
+                            {/* Errors are computed from the data now, so plenty of records come back clean */}
+                            {Object.keys(record.errors || {}).length === 0 && (
+                                <p className="text-sm text-gray-700">No validation errors for this record.</p>
+                            )}
+                            <ul className="space-y-4">
+                                {Object.entries(record.errors || {}).map(([field, errors]) => (
+                                    // One box per field, coloured by its worst error, listing every error on it
+                                    <li key={field} className={`p-3 rounded-lg ${getFieldColor(worstSeverity(errors))}`}>
+                                        <strong className="text-lg font-semibold capitalize">{field}:</strong>
+                                        <ul className="mt-1 space-y-2">
+                                            {errors.map((error) => (
+                                                <li key={error.code} className="flex items-start space-x-4">
+                                                    {/* Different Icons for Severity */}
+                                                    <span className="shrink-0">
+                                                        <SeverityIcon severity={error.severity} />
+                                                    </span>
+
+                                                    <div>
+                                                        <p className="text-sm text-gray-700">
+                                                            {error.message}
+                                                            <code className="ml-2 text-xs text-gray-500">{error.code}</code>
+                                                        </p>
+                                                        {/* Cross-field errors: the rule behind it, and where else it shows up */}
+                                                        {error.relation && (
+                                                            <p className="text-xs text-gray-600">
+                                                                {error.relation}.
+                                                                {error.fields && error.fields.length > 1 &&
+                                                                    ` Also listed under ${error.fields.filter((other) => other !== field).join(", ")}.`}
+                                                            </p>
+                                                        )}
+                                                        <FixSuggestions
+                                                            // Only fixes for fields the table can edit (rule files can flag the name, which can't be)
+                                                            suggestions={(error.suggestions || []).filter(
+                                                                (fix) =>
+                                                                    EDITABLE_FIELDS.includes((fix.field ?? field) as EditableField) &&
+                                                                    !rejectedFixes.has(`${record.id}:${field}:${fix.value}`)
+                                                            )}
+                                                            onAccept={(fix) => saveField(record, fix.field ?? (field as EditableField), fix.value)}
+                                                            onReject={(fix) => rejectFix(record, field, fix)}
+                                                        />
+                                                    </div>
+                                                </li>
+                                            ))}
+                                        </ul>
+                                    </li>
+                                ))}
+                            </ul>
+                        </div>
+                    )}
+
                     <button
                         onClick={() => setModalData(null)}
                         className="mt-6 w-full bg-blue-600 text-white text-sm font-medium py-2 px-4 rounded-lg hover:bg-blue-700 transition duration-300"
@@ -226,97 +513,327 @@ export default function DataReviewTable() {
             <div className="p-6 overflow-scroll px-0 w-11/12 max-w-6xl">
                 <h1 className="text-3xl font-bold mb-6">Tom's Data Review</h1>
 
-                {/* Search input to filter through the records */}
-                <input
-                    type="text"
-                    value={searchQuery}
-                    onChange={(e) => setSearchQuery(e.target.value)} // Live search
-                    placeholder="Search records..."
-                    className="mb-4 w-full max-w-md p-2 border border-gray-300 rounded-md"
+                <div className="mb-4 flex flex-wrap items-center gap-4">
+                    {/* Search input to filter through the records—syntax lives in lib/search.ts */}
+                    <div className="w-full max-w-md">
+                        <input
+                            type="text"
+                            value={searchQuery}
+                            onChange={(e) => setSearchQuery(e.target.value)} // Live search (debounced)
+                            placeholder="Search records..."
+                            className="w-full p-2 border border-gray-300 rounded-md"
+                        />
+                        <p className="mt-1 text-xs text-gray-500">
+                            Try <code>email:gmail</code> <code>status:pending</code> <code>severity:critical</code>,{" "}
+                            <code>&quot;main st&quot;</code> for phrases or <code>-term</code> to exclude.
+                        </p>
+                    </div>
+
+                    {/* Dataset switcher—the sample data plus every CSV import */}
+                    <select
+                        value={query.dataset}
+                        onChange={(e) => {
+                            setSelected(new Map()); // Selections don't carry over between datasets
+                            updateQuery({ dataset: e.target.value });
+                        }}
+                        className="p-2 border border-gray-300 rounded-md"
+                    >
+                        {datasets.map((dataset) => (
+                            <option key={dataset.id} value={dataset.id}>
+                                {dataset.name} ({dataset.recordCount})
+                            </option>
+                        ))}
+                    </select>
+
+                    {/* Who's reviewing—there's no login, so this is what the audit log records */}
+                    <input
+                        type="text"
+                        value={reviewer}
+                        onChange={(e) => setReviewer(e.target.value)}
+                        placeholder="Your name"
+                        aria-label="Reviewer name"
+                        className="p-2 border border-gray-300 rounded-md w-36"
+                    />
+
+                    <ColumnPicker columns={columns} onChange={setColumns} />
+
+                    {fetching && <span className="text-sm text-gray-500">Updating...</span>}
+                </div>
+
+                {/* Named combinations of search, filters, sort, columns and page size, stored per reviewer */}
+                <ViewSwitcher reviewer={reviewer} current={currentView} onApply={applyView} />
+
+                {/* Facet filters with live counts */}
+                <FilterPanel
+                    selection={query.facets}
+                    counts={facetCounts}
+                    onToggle={handleFacetToggle}
+                    onClear={() => updateQuery({ facets: DEFAULT_TABLE_QUERY.facets })}
                 />
 
+                {reviewProgress && <ReviewProgress counts={reviewProgress} />}
+
+                {notice && <p className="mb-2 p-2 rounded-md bg-yellow-500/20 text-yellow-900 text-sm">{notice}</p>}
+
                 {/* Table displaying the records */}
-                <div className="max-h-96 overflow-y-auto border border-gray-300 rounded-md shadow-md scroll-snap-y scroll-snap-stop-always">
+                {/* Bulk actions for the selected records */}
+                {selected.size > 0 && (
+                    <SelectionToolbar
+                        count={selected.size}
+                        busy={bulkBusy}
+                        onSetStatus={(status) => applyBulkAction({ type: "setStatus", status })}
+                        onSetReviewState={(state) => applyBulkAction({ type: "setReviewState", state })}
+                        onExport={() => downloadCSV(Array.from(selected.values()), "selected_records_with_errors.csv")}
+                        onClear={() => setSelected(new Map())}
+                    />
+                )}
+
+                {/* Whole page selected—offer to extend the selection to everything matching the filters */}
+                {pageSelected && selected.size < pagination.total && (
+                    <div className="mb-2 text-sm text-gray-700">
+                        All {records.length} records on this page are selected.{" "}
+                        <button onClick={selectAllMatching} disabled={bulkBusy} className="text-blue-600 hover:underline disabled:opacity-50">
+                            Select all {pagination.total} matching records
+                        </button>
+                    </div>
+                )}
+
+                {/* Focusable so arrow keys and Page Up/Down scroll it */}
+                <div
+                    ref={virtualRows.containerRef}
+                    tabIndex={0}
+                    className="max-h-96 overflow-y-auto border border-gray-300 rounded-md shadow-md scroll-snap-y scroll-snap-stop-always"
+                >
                     <table className="w-full table-auto text-left">
                         <thead className="sticky top-0 bg-white z-10">
                             <tr>
-                                <th className="border-y border-blue-gray-100 bg-blue-gray-50/50 p-4">ID</th>
-                                <th className="border-y border-blue-gray-100 bg-blue-gray-50/50 p-4">Name</th>
-                                <th className="border-y border-blue-gray-100 bg-blue-gray-50/50 p-4">Email</th>
-                                <th className="border-y border-blue-gray-100 bg-blue-gray-50/50 p-4">Street</th>
-                                <th className="border-y border-blue-gray-100 bg-blue-gray-50/50 p-4">Zipcode</th>
-                                <th className="border-y border-blue-gray-100 bg-blue-gray-50/50 p-4">Phone</th>
-                                <th className="border-y border-blue-gray-100 bg-blue-gray-50/50 p-4">Status</th>
-                                <th className="border-y border-blue-gray-100 bg-blue-gray-50/50 p-4">Error Summary</th>
+                                <th className="border-y border-blue-gray-100 bg-blue-gray-50/50 p-4">
+                                    <input
+                                        type="checkbox"
+                                        checked={pageSelected}
+                                        ref={(el) => {
+                                            if (el) el.indeterminate = !pageSelected && records.some((record) => selected.has(record.id));
+                                        }}
+                                        onChange={togglePageSelected}
+                                        aria-label="Select all records on this page"
+                                    />
+                                </th>
+                                {columns.map((column) => (
+                                    <SortableHeader key={column} label={COLUMN_LABELS[column]} field={column} sort={query.sort} onSort={handleSort} />
+                                ))}
                             </tr>
                         </thead>
                         <tbody className="scroll-snap-align-start">
-                            {filteredRecords.map((record) => (
-                                <tr key={record.id}>
-                                    <td className="p-4 border-b border-blue-gray-50 hover:bg-opacity-75">{record.id}</td>
-                                    <td className="p-4 border-b border-blue-gray-50 hover:bg-opacity-75">
-                                        {record.name}
-                                    </td>
-                                    <td
-                                        className={`p-4 border-b border-blue-gray-50 hover:bg-opacity-75 ${getFieldColor(record.errors?.email?.severity)}`}
-                                        onMouseMove={(e) => handleMouseMove(e, record.errors?.email?.message || "")}
-                                        onMouseLeave={handleMouseLeave}
-                                    >
-                                        {record.email}
-                                    </td>
-                                    <td
-                                        className={`p-4 border-b border-blue-gray-50 hover:bg-opacity-75 ${getFieldColor(record.errors?.street?.severity)}`}
-                                        onMouseMove={(e) => handleMouseMove(e, record.errors?.street?.message || "")}
-                                        onMouseLeave={handleMouseLeave}
-                                    >
-                                        {record.street || "N/A"}
-                                    </td>
-                                    <td
-                                        className={`p-4 border-b border-blue-gray-50 hover:bg-opacity-75 ${getFieldColor(record.errors?.zipcode?.severity)}`}
-                                        onMouseMove={(e) => handleMouseMove(e, record.errors?.zipcode?.message || "")}
-                                        onMouseLeave={handleMouseLeave}
-                                    >
-                                        {record.zipcode || "N/A"}
-                                    </td>
-                                    <td
-                                        className={`p-4 border-b border-blue-gray-50 hover:bg-opacity-75 ${getFieldColor(record.errors?.phone?.severity)}`}
-                                        onMouseMove={(e) => handleMouseMove(e, record.errors?.phone?.message || "")}
-                                        onMouseLeave={handleMouseLeave}
-                                    >
-                                        {record.phone || "N/A"}
-                                    </td>
-                                    <td className="p-4 border-b border-blue-gray-50 hover:bg-opacity-75">
-                                        {getStatusBadge(record.status)}
+                            {/* Spacers stand in for the rows above and below the visible window */}
+                            {virtualRows.paddingTop > 0 && <tr aria-hidden style={{ height: virtualRows.paddingTop }} />}
+                            {records.slice(virtualRows.start, virtualRows.end).map((record, index) => (
+                                <tr
+                                    key={record.id}
+                                    ref={index === 0 ? virtualRows.measureRow : undefined}
+                                    className={selected.has(record.id) ? "bg-blue-500/5" : ""}
+                                >
+                                    <td className="p-4 border-b border-blue-gray-50">
+                                        <input
+                                            type="checkbox"
+                                            checked={selected.has(record.id)}
+                                            onChange={() => toggleSelected(record)}
+                                            aria-label={`Select record ${record.id}`}
+                                        />
                                     </td>
-                                    <td className="p-4 border-b border-blue-gray-50 hover:bg-opacity-75">
-                                        <button
-                                            onClick={() => setModalData(record)} // Show modal with error details
-                                            className="px-4 py-2 bg-gray-200 text-xs font-medium rounded-lg text-gray-900 hover:bg-gray-300 active:bg-gray-400"
+                                    {showColumn("id") && (
+                                        <td className="p-4 border-b border-blue-gray-50 hover:bg-opacity-75">{record.id}</td>
+                                    )}
+                                    {showColumn("name") && (
+                                        <EditableCell
+                                            value={record.name}
+                                            label="Name"
+                                            // Only some rule sets check the name, so stay uncoloured rather than green without one
+                                            colorClass={record.errors?.name ? getFieldColor(worstSeverity(record.errors.name)) : undefined}
+                                            errorMessage={errorMessages(fieldErrors(record, "name"))}
+                                            highlight={highlightTerms(searchTerms, "name")}
+                                            onSave={(value) => saveField(record, "name", value)}
+                                            onMouseMove={handleMouseMove}
+                                            onMouseLeave={handleMouseLeave}
+                                        />
+                                    )}
+                                    {showColumn("email") && (
+                                        <EditableCell
+                                            value={record.email}
+                                            label="Email"
+                                            colorClass={getFieldColor(worstSeverity(fieldErrors(record, "email")))}
+                                            errorMessage={errorMessages(fieldErrors(record, "email"))}
+                                            highlight={highlightTerms(searchTerms, "email")}
+                                            onSave={(value) => saveField(record, "email", value)}
+                                            onMouseMove={handleMouseMove}
+                                            onMouseLeave={handleMouseLeave}
+                                        />
+                                    )}
+                                    {showColumn("street") && (
+                                        <EditableCell
+                                            value={record.street}
+                                            label="Street"
+                                            colorClass={getFieldColor(worstSeverity(fieldErrors(record, "street")))}
+                                            errorMessage={errorMessages(fieldErrors(record, "street"))}
+                                            highlight={highlightTerms(searchTerms, "street")}
+                                            onSave={(value) => saveField(record, "street", value)}
+                                            onMouseMove={handleMouseMove}
+                                            onMouseLeave={handleMouseLeave}
+                                        />
+                                    )}
+                                    {showColumn("city") && (
+                                        <EditableCell
+                                            value={record.city}
+                                            label="City"
+                                            // Only some rule sets check the city, so stay uncoloured rather than green without one
+                                            colorClass={record.errors?.city ? getFieldColor(worstSeverity(record.errors.city)) : undefined}
+                                            errorMessage={errorMessages(fieldErrors(record, "city"))}
+                                            highlight={highlightTerms(searchTerms, "city")}
+                                            onSave={(value) => saveField(record, "city", value)}
+                                            onMouseMove={handleMouseMove}
+                                            onMouseLeave={handleMouseLeave}
+                                        />
+                                    )}
+                                    {showColumn("zipcode") && (
+                                        <EditableCell
+                                            value={record.zipcode}
+                                            label="Zipcode"
+                                            colorClass={getFieldColor(worstSeverity(fieldErrors(record, "zipcode")))}
+                                            errorMessage={errorMessages(fieldErrors(record, "zipcode"))}
+                                            highlight={highlightTerms(searchTerms, "zipcode")}
+                                            onSave={(value) => saveField(record, "zipcode", value)}
+                                            onMouseMove={handleMouseMove}
+                                            onMouseLeave={handleMouseLeave}
+                                        />
+                                    )}
+                                    {showColumn("phone") && (
+                                        <EditableCell
+                                            value={record.phone}
+                                            label="Phone"
+                                            colorClass={getFieldColor(worstSeverity(fieldErrors(record, "phone")))}
+                                            errorMessage={errorMessages(fieldErrors(record, "phone"))}
+                                            highlight={highlightTerms(searchTerms, "phone")}
+                                            detail={record.normalized?.phone && `${record.normalized.phone.e164} · ${record.normalized.phone.country}`}
+                                            onSave={(value) => saveField(record, "phone", value)}
+                                            onMouseMove={handleMouseMove}
+                                            onMouseLeave={handleMouseLeave}
+                                        />
+                                    )}
+                                    {showColumn("status") && (
+                                        <td
+                                            // Status can have errors too, mostly from cross-field rules like "active customers need a phone"
+                                            className={`p-4 border-b border-blue-gray-50 hover:bg-opacity-75 ${record.errors?.status ? getFieldColor(worstSeverity(record.errors.status)) : ""}`}
+                                            onMouseMove={(e) => record.errors?.status && handleMouseMove(e, errorMessages(record.errors.status))}
+                                            onMouseLeave={handleMouseLeave}
                                         >
-                                            View Errors
-                                        </button>
-                                    </td>
+                                            {getStatusBadge(record.status)}
+                                        </td>
+                                    )}
+                                    {showColumn("review") && (
+                                        <td
+                                            className="p-4 border-b border-blue-gray-50"
+                                            title={record.reviewedBy && record.reviewedAt ? `${record.reviewedBy}, ${new Date(record.reviewedAt).toLocaleString()}` : undefined}
+                                        >
+                                            <ReviewBadge state={reviewStateOf(record)} />
+                                        </td>
+                                    )}
+                                    {showColumn("score") && (
+                                        <td className="p-4 border-b border-blue-gray-50">
+                                            {record.score !== undefined && <ScoreBar score={record.score} />}
+                                        </td>
+                                    )}
+                                    {showColumn("severity") && (
+                                        <td className="p-4 border-b border-blue-gray-50 hover:bg-opacity-75">
+                                            <button
+                                                onClick={() => {
+                                                    setModalTab("errors");
+                                                    setModalData(record); // Show modal with error details
+                                                }}
+                                                className="px-4 py-2 bg-gray-200 text-xs font-medium rounded-lg text-gray-900 hover:bg-gray-300 active:bg-gray-400"
+                                            >
+                                                View Errors
+                                            </button>
+                                        </td>
+                                    )}
                                 </tr>
                             ))}
+                            {virtualRows.paddingBottom > 0 && <tr aria-hidden style={{ height: virtualRows.paddingBottom }} />}
                         </tbody>
                     </table>
                 </div>
 
-                {/* Export CSV button */}
-                <div className="mt-4">
+                {/* Pagination controls */}
+                <div className="mt-4 flex flex-wrap items-center justify-between gap-4 text-sm">
+                    <span className="text-gray-600">
+                        {pagination.total === 0
+                            ? "No matching records"
+                            : `Showing ${(pagination.page - 1) * pagination.pageSize + 1}–${Math.min(pagination.page * pagination.pageSize, pagination.total)} of ${pagination.total}`}
+                    </span>
+
+                    <div className="flex items-center gap-2">
+                        <button
+                            onClick={() => setQuery((current) => ({ ...current, page: pagination.page - 1 }))}
+                            disabled={pagination.page <= 1}
+                            className="px-3 py-1 rounded-md bg-gray-200 hover:bg-gray-300 disabled:opacity-50 disabled:hover:bg-gray-200"
+                        >
+                            Previous
+                        </button>
+                        <span>Page {pagination.page} of {pagination.pageCount}</span>
+                        <button
+                            onClick={() => setQuery((current) => ({ ...current, page: pagination.page + 1 }))}
+                            disabled={pagination.page >= pagination.pageCount}
+                            className="px-3 py-1 rounded-md bg-gray-200 hover:bg-gray-300 disabled:opacity-50 disabled:hover:bg-gray-200"
+                        >
+                            Next
+                        </button>
+
+                        <select
+                            value={query.pageSize}
+                            onChange={(e) => updateQuery({ pageSize: Number(e.target.value) })}
+                            className="ml-2 p-1 border border-gray-300 rounded-md"
+                        >
+                            {PAGE_SIZE_OPTIONS.map((size) => (
+                                <option key={size} value={size}>{size} / page</option>
+                            ))}
+                        </select>
+                    </div>
+                </div>
+
+                {/* Export and import CSV buttons, and the way to the duplicates screen */}
+                <div className="mt-4 flex gap-4">
                     <button
                         onClick={exportToCSV}
                         className="bg-blue-500 text-white px-4 py-2 rounded shadow-lg hover:bg-blue-600"
                     >
                         Export CSV
                     </button>
+                    <button
+                        onClick={() => setImportOpen(true)}
+                        className="bg-gray-200 text-gray-900 px-4 py-2 rounded shadow-lg hover:bg-gray-300"
+                    >
+                        Import CSV
+                    </button>
+                    <Link
+                        href={{ pathname: "/duplicates", query: { dataset: query.dataset } }}
+                        className="bg-gray-200 text-gray-900 px-4 py-2 rounded shadow-lg hover:bg-gray-300"
+                    >
+                        Find duplicates
+                    </Link>
+                    <Link
+                        href={{ pathname: "/dashboard", query: { dataset: query.dataset } }}
+                        className="bg-gray-200 text-gray-900 px-4 py-2 rounded shadow-lg hover:bg-gray-300"
+                    >
+                        Dashboard
+                    </Link>
+                    <Link href="/rules" className="bg-gray-200 text-gray-900 px-4 py-2 rounded shadow-lg hover:bg-gray-300">
+                        Validation rules
+                    </Link>
                 </div>
             </div>
 
             {/* Tooltip that follows the mouse */}
             {hoveredError && tooltipPosition && (
                 <div
-                    className="absolute bg-gray-800 text-white rounded px-2 py-1 text-xs shadow-md"
+                    className="absolute bg-gray-800 text-white rounded px-2 py-1 text-xs shadow-md whitespace-pre-line" // One line per error
                     style={{ top: tooltipPosition.y + 10, left: tooltipPosition.x + 10 }}
                 >
                     {hoveredError}
@@ -325,6 +842,9 @@ export default function DataReviewTable() {
 
             {/* Modal for showing detailed errors */}
             {modalData && renderModal(modalData)}
+
+            {/* CSV upload and column mapping */}
+            {importOpen && <ImportDialog onClose={() => setImportOpen(false)} onImported={openImportedDataset} />}
         </div>
     );
 }
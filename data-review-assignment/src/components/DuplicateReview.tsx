@@ -0,0 +1,112 @@
+import { useCallback, useEffect, useState } from "react";
+import Link from "next/link";
+import axios, { AxiosResponse } from "axios";
+import { DuplicateCluster } from "@/src/types/duplicate";
+import MergeDialog from "./MergeDialog";
+
+interface DuplicateReviewProps {
+    datasetId: string;
+}
+
+// Every cluster of likely duplicates in a dataset, each with a button to open the merge screen
+export default function DuplicateReview({ datasetId }: DuplicateReviewProps) {
+    const [clusters, setClusters] = useState<DuplicateCluster[]>([]);
+    const [loading, setLoading] = useState<boolean>(true);
+    const [error, setError] = useState<string | null>(null);
+    const [merging, setMerging] = useState<DuplicateCluster | null>(null);
+    const [notice, setNotice] = useState<string | null>(null); // Confirmation after a merge
+
+    const fetchClusters = useCallback(async () => {
+        try {
+            const response: AxiosResponse<{ clusters: DuplicateCluster[] }> = await axios.get("/api/duplicates", {
+                params: { dataset: datasetId },
+            });
+            setClusters(response.data.clusters);
+            setError(null);
+        } catch (err) {
+            setError("Error fetching duplicates. Please try again later.");
+            console.error(err);
+        } finally {
+            setLoading(false);
+        }
+    }, [datasetId]);
+
+    useEffect(() => {
+        fetchClusters();
+    }, [fetchClusters]);
+
+    if (loading) {
+        return <div className="text-center mt-10">Loading...</div>;
+    }
+
+    if (error) {
+        return <div className="text-center text-red-500 mt-10">{error}</div>;
+    }
+
+    return (
+        <div className="flex min-h-screen justify-center bg-white">
+            <div className="p-6 w-11/12 max-w-6xl">
+                <div className="mb-6 flex items-center justify-between">
+                    <h1 className="text-3xl font-bold">Possible duplicates</h1>
+                    <Link href="/" className="text-sm text-blue-600 hover:underline">
+                        Back to records
+                    </Link>
+                </div>
+
+                {notice && <p className="mb-4 p-2 rounded-md bg-green-500/20 text-green-900 text-sm">{notice}</p>}
+
+                {clusters.length === 0 && <p className="text-gray-600">No likely duplicates in this dataset.</p>}
+
+                <ul className="space-y-4">
+                    {clusters.map((cluster) => (
+                        <li
+                            key={cluster.records.map((record) => record.id).join("-")}
+                            className="border border-gray-300 rounded-md shadow-md p-4"
+                        >
+                            <div className="mb-2 flex flex-wrap items-center justify-between gap-2">
+                                <span className="text-sm text-gray-700">
+                                    <strong>{cluster.records.length} records</strong>, {Math.round(cluster.score * 100)}% match
+                                    {cluster.matchedOn.length > 0 && ` on ${cluster.matchedOn.join(", ")}`}
+                                </span>
+                                <button
+                                    onClick={() => setMerging(cluster)}
+                                    className="bg-blue-500 text-white text-sm px-4 py-1 rounded shadow hover:bg-blue-600"
+                                >
+                                    Merge...
+                                </button>
+                            </div>
+                            <table className="w-full text-sm text-left">
+                                <tbody>
+                                    {cluster.records.map((record) => (
+                                        <tr key={record.id} className="border-t border-gray-200">
+                                            <td className="py-1 pr-2 text-gray-500">{record.id}</td>
+                                            <td className="py-1 pr-2">{record.name}</td>
+                                            <td className="py-1 pr-2">{record.email || "N/A"}</td>
+                                            <td className="py-1 pr-2">
+                                                {[record.street, record.city, record.zipcode].filter(Boolean).join(", ") || "N/A"}
+                                            </td>
+                                            <td className="py-1 pr-2">{record.phone || "N/A"}</td>
+                                            <td className="py-1 capitalize">{record.status}</td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                        </li>
+                    ))}
+                </ul>
+            </div>
+
+            {merging && (
+                <MergeDialog
+                    cluster={merging}
+                    onClose={() => setMerging(null)}
+                    onMerged={(survivor) => {
+                        setMerging(null);
+                        setNotice(`Merged into record ${survivor.id} (now linked to ${survivor.mergedFrom?.join(", ")}).`);
+                        fetchClusters(); // What's left of the cluster may or may not still look like a duplicate
+                    }}
+                />
+            )}
+        </div>
+    );
+}
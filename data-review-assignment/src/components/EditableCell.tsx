@@ -0,0 +1,114 @@
+import { KeyboardEvent, MouseEvent, useRef, useState } from "react";
+import Highlight from "./Highlight";
+
+interface EditableCellProps {
+    value?: string;
+    label: string; // Used for the input's aria-label, e.g. "Email"
+    colorClass?: string; // Severity colour from getFieldColor, empty for fields we don't validate
+    errorMessage?: string;
+    highlight?: string[]; // Search terms to mark in the value
+    detail?: string; // Small print under the value, e.g. the normalized phone number
+    onSave: (value: string) => Promise<void>; // Should throw if the save failed so we can stay in edit mode
+    onMouseMove: (e: MouseEvent, errorMessage: string) => void;
+    onMouseLeave: () => void;
+}
+
+// A table cell that shows a value and turns into an input on double-click (or via the pencil button)
+export default function EditableCell({
+    value,
+    label,
+    colorClass = "",
+    errorMessage,
+    highlight = [],
+    detail,
+    onSave,
+    onMouseMove,
+    onMouseLeave,
+}: EditableCellProps) {
+    const [editing, setEditing] = useState<boolean>(false);
+    const [draft, setDraft] = useState<string>(value || "");
+    const [saving, setSaving] = useState<boolean>(false);
+    const [saveError, setSaveError] = useState<string | null>(null);
+    const finished = useRef<boolean>(false); // Stops the blur that follows Enter/Escape from saving a second time
+
+    const startEditing = () => {
+        finished.current = false;
+        setDraft(value || "");
+        setSaveError(null);
+        setEditing(true);
+    };
+
+    const cancel = () => {
+        finished.current = true;
+        setEditing(false);
+        setSaveError(null);
+    };
+
+    const save = async () => {
+        if (finished.current || saving) return;
+        if (draft === (value || "")) return cancel(); // Nothing changed, no need to bother the API
+
+        setSaving(true);
+        try {
+            await onSave(draft);
+            finished.current = true;
+            setEditing(false);
+            setSaveError(null);
+        } catch (err) {
+            setSaveError("Couldn't save this change. Please try again.");
+            console.error(err);
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    const handleKeyDown = (e: KeyboardEvent<HTMLInputElement>) => {
+        if (e.key === "Enter") save();
+        else if (e.key === "Escape") cancel();
+    };
+
+    if (editing) {
+        return (
+            <td className={`p-2 border-b border-blue-gray-50 ${colorClass}`}>
+                <input
+                    type="text"
+                    value={draft}
+                    onChange={(e) => setDraft(e.target.value)}
+                    onKeyDown={handleKeyDown}
+                    onBlur={save}
+                    disabled={saving}
+                    autoFocus
+                    aria-label={`Edit ${label}`}
+                    className="w-full min-w-32 p-2 border border-blue-400 rounded-md bg-white text-gray-900 disabled:opacity-60"
+                />
+                {saveError && <p className="mt-1 text-xs text-red-700">{saveError}</p>}
+            </td>
+        );
+    }
+
+    return (
+        <td
+            className={`group p-4 border-b border-blue-gray-50 hover:bg-opacity-75 ${colorClass}`}
+            onMouseMove={(e) => onMouseMove(e, errorMessage || "")}
+            onMouseLeave={onMouseLeave}
+            onDoubleClick={startEditing}
+        >
+            <div className="flex items-center justify-between gap-2">
+                <span>
+                    {value ? <Highlight text={value} terms={highlight} /> : "N/A"}
+                    {detail && <span className="block text-xs opacity-75">{detail}</span>}
+                </span>
+                <button
+                    onClick={startEditing}
+                    aria-label={`Edit ${label}`}
+                    className="invisible group-hover:visible text-gray-500 hover:text-gray-900"
+                >
+                    {/* Pencil icon */}
+                    <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" viewBox="0 0 20 20" fill="currentColor">
+                        <path d="M13.586 3.586a2 2 0 112.828 2.828l-.793.793-2.828-2.828.793-.793zM11.379 5.793L3 14.172V17h2.828l8.38-8.379-2.83-2.828z" />
+                    </svg>
+                </button>
+            </div>
+        </td>
+    );
+}
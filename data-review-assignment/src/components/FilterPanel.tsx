@@ -0,0 +1,64 @@
+import { REVIEW_STATE_LABELS, ReviewState } from "@/src/consts/review";
+import { Facet, FacetCounts, FacetSelection } from "@/src/lib/tableQuery";
+
+interface FilterPanelProps {
+    selection: FacetSelection;
+    counts: FacetCounts | null; // null until the first response comes back
+    onToggle: (facet: Facet, value: string) => void;
+    onClear: () => void;
+}
+
+const FACET_LABELS: { [facet in Facet]: string } = {
+    status: "Status",
+    review: "Review",
+    city: "City",
+    severity: "Severity",
+    errorField: "Has error on",
+};
+
+// Chip colours line up with the table: severities use the same palette as getFieldColor
+const chipColor = (facet: Facet, value: string, selected: boolean) => {
+    if (!selected) return "bg-white text-gray-700 border-gray-300 hover:bg-gray-100";
+    if (facet === "severity" && value === "blocker") return "bg-red-600/40 text-red-950 border-red-600/60";
+    if (facet === "severity" && value === "critical") return "bg-red-500/20 text-red-900 border-red-500/50";
+    if (facet === "severity" && value === "warning") return "bg-yellow-500/20 text-yellow-900 border-yellow-500/50";
+    if (facet === "severity" && value === "info") return "bg-sky-500/20 text-sky-900 border-sky-500/50";
+    if (facet === "severity" && value === "clean") return "bg-green-500/20 text-green-900 border-green-500/50";
+    return "bg-blue-500/20 text-blue-900 border-blue-500/50";
+};
+
+// One row of toggleable chips per facet, each showing how many records it would match
+export default function FilterPanel({ selection, counts, onToggle, onClear }: FilterPanelProps) {
+    const hasSelection = Object.values(selection).some((values) => values.length > 0);
+
+    return (
+        <div className="mb-4 p-4 border border-gray-300 rounded-md space-y-2 text-sm">
+            {(Object.keys(FACET_LABELS) as Facet[]).map((facet) => (
+                <div key={facet} className="flex flex-wrap items-center gap-2">
+                    <span className="w-24 font-semibold text-gray-700">{FACET_LABELS[facet]}</span>
+                    {(counts?.[facet] || []).map(({ value, count }) => {
+                        const selected = selection[facet].includes(value);
+                        return (
+                            <button
+                                key={value}
+                                onClick={() => onToggle(facet, value)}
+                                aria-pressed={selected}
+                                // Keep zero-count chips clickable when selected, so there's always a way back out
+                                disabled={count === 0 && !selected}
+                                className={`px-2 py-1 rounded-md border capitalize disabled:opacity-40 ${chipColor(facet, value, selected)}`}
+                            >
+                                {facet === "review" ? REVIEW_STATE_LABELS[value as ReviewState] : value} <span className="text-xs opacity-75">({count})</span>
+                            </button>
+                        );
+                    })}
+                </div>
+            ))}
+
+            {hasSelection && (
+                <button onClick={onClear} className="text-blue-600 hover:underline">
+                    Clear filters
+                </button>
+            )}
+        </div>
+    );
+}
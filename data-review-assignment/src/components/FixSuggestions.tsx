@@ -0,0 +1,54 @@
+import { useState } from "react";
+import { FixSuggestion } from "@/src/types/record";
+
+interface FixSuggestionsProps {
+    suggestions: FixSuggestion[];
+    onAccept: (suggestion: FixSuggestion) => Promise<void>; // Should throw if the fix couldn't be saved
+    onReject: (suggestion: FixSuggestion) => void;
+}
+
+// Accept/reject buttons for the fixes the validation engine offers on an error
+export default function FixSuggestions({ suggestions, onAccept, onReject }: FixSuggestionsProps) {
+    const [applying, setApplying] = useState<string | null>(null); // Value of the fix being saved
+    const [applyError, setApplyError] = useState<string | null>(null);
+
+    const accept = async (suggestion: FixSuggestion) => {
+        setApplying(suggestion.value);
+        setApplyError(null);
+        try {
+            await onAccept(suggestion);
+        } catch (err) {
+            setApplyError("Couldn't apply this fix. Please try again.");
+            console.error(err);
+        } finally {
+            setApplying(null);
+        }
+    };
+
+    if (suggestions.length === 0) return null;
+
+    return (
+        <ul className="mt-2 space-y-1">
+            {suggestions.map((suggestion) => (
+                <li key={suggestion.value} className="flex flex-wrap items-center gap-2 text-sm">
+                    <span className="text-gray-800">{suggestion.label}</span>
+                    <button
+                        onClick={() => accept(suggestion)}
+                        disabled={applying !== null}
+                        className="px-2 py-0.5 rounded-md bg-blue-600 text-white text-xs hover:bg-blue-700 disabled:opacity-50"
+                    >
+                        {applying === suggestion.value ? "Applying..." : "Accept"}
+                    </button>
+                    <button
+                        onClick={() => onReject(suggestion)}
+                        disabled={applying !== null}
+                        className="px-2 py-0.5 rounded-md bg-white/70 text-gray-700 text-xs hover:bg-white disabled:opacity-50"
+                    >
+                        Reject
+                    </button>
+                </li>
+            ))}
+            {applyError && <li className="text-xs text-red-700">{applyError}</li>}
+        </ul>
+    );
+}
@@ -0,0 +1,29 @@
+import { Fragment } from "react";
+
+interface HighlightProps {
+    text: string;
+    terms: string[]; // Lowercase search terms—see highlightTerms in lib/search.ts
+}
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+// Wraps every case-insensitive occurrence of the search terms in a <mark>
+export default function Highlight({ text, terms }: HighlightProps) {
+    if (!text || terms.length === 0) return <>{text}</>;
+
+    // Longest terms first so "main st" wins over "main" when both are searched
+    const pattern = new RegExp(`(${[...terms].sort((a, b) => b.length - a.length).map(escapeRegExp).join("|")})`, "gi");
+    const parts = text.split(pattern); // Capturing group keeps the matches at the odd indexes
+
+    return (
+        <>
+            {parts.map((part, index) =>
+                index % 2 === 1 ? (
+                    <mark key={index} className="bg-blue-200 text-inherit rounded-sm">{part}</mark>
+                ) : (
+                    <Fragment key={index}>{part}</Fragment>
+                )
+            )}
+        </>
+    );
+}
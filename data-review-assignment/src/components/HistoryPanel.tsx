@@ -0,0 +1,105 @@
+import { useEffect, useState } from "react";
+import axios, { AxiosResponse } from "axios";
+import { AuditValue, RecordHistory } from "@/src/types/audit";
+import { Record } from "@/src/types/record";
+
+interface HistoryPanelProps {
+    record: Record; // Changes when a fix is saved, which refreshes the log
+}
+
+// Fields worth showing when rebuilding a record as of a past date
+const SNAPSHOT_FIELDS = ["name", "email", "street", "city", "zipcode", "phone", "status", "reviewState", "reviewedBy"] as const;
+
+const formatValue = (value: AuditValue | undefined) => {
+    if (value === null || value === undefined || value === "") return "(empty)";
+    return Array.isArray(value) ? value.join(", ") : String(value);
+};
+
+// The History tab of the record modal: who changed what and when, plus "what did this record look like on..."
+export default function HistoryPanel({ record }: HistoryPanelProps) {
+    const [history, setHistory] = useState<RecordHistory | null>(null);
+    const [asOf, setAsOf] = useState<string>(""); // datetime-local value, in the reviewer's time zone
+    const [snapshot, setSnapshot] = useState<RecordHistory | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        const controller = new AbortController();
+        axios
+            .get(`/api/data/${record.id}/history`, { signal: controller.signal })
+            .then((response: AxiosResponse<RecordHistory>) => setHistory(response.data))
+            .catch((err) => {
+                if (axios.isCancel(err)) return;
+                setError("Couldn't load the history for this record.");
+                console.error(err);
+            });
+        return () => controller.abort();
+    }, [record]);
+
+    const showSnapshot = async () => {
+        setError(null);
+        try {
+            const response: AxiosResponse<RecordHistory> = await axios.get(`/api/data/${record.id}/history`, {
+                params: { asOf: new Date(asOf).toISOString() },
+            });
+            setSnapshot(response.data);
+        } catch (err) {
+            const message = axios.isAxiosError(err) ? err.response?.data?.error : null;
+            setError(message || "Couldn't rebuild the record for that date.");
+            setSnapshot(null);
+            console.error(err);
+        }
+    };
+
+    if (!history && !error) return <p className="text-sm text-gray-700">Loading history...</p>;
+
+    return (
+        <div className="space-y-4 text-sm">
+            {error && <p className="text-red-700">{error}</p>}
+
+            {history && history.entries.length === 0 && <p className="text-gray-700">No changes since this record was added.</p>}
+            <ul className="space-y-2 max-h-64 overflow-y-auto">
+                {history?.entries.map((entry) => (
+                    <li key={entry.id} className="p-2 rounded-md bg-gray-100">
+                        <div className="text-xs text-gray-500">
+                            {new Date(entry.timestamp).toLocaleString()} · {entry.user} · {entry.source}
+                        </div>
+                        <div className="text-gray-800">
+                            <strong>{entry.field}</strong>: {formatValue(entry.oldValue)} → {formatValue(entry.newValue)}
+                        </div>
+                    </li>
+                ))}
+            </ul>
+
+            {/* Point-in-time view, rebuilt on the server by undoing later changes */}
+            <div className="border-t border-gray-300 pt-4">
+                <div className="flex items-center gap-2">
+                    <label htmlFor="history-as-of" className="text-gray-700">As of</label>
+                    <input
+                        id="history-as-of"
+                        type="datetime-local"
+                        value={asOf}
+                        onChange={(e) => setAsOf(e.target.value)}
+                        className="p-1 border border-gray-300 rounded-md"
+                    />
+                    <button
+                        onClick={showSnapshot}
+                        disabled={!asOf}
+                        className="px-2 py-1 rounded-md bg-gray-200 hover:bg-gray-300 disabled:opacity-50"
+                    >
+                        Show
+                    </button>
+                </div>
+                {snapshot?.record && (
+                    <dl className="mt-2 grid grid-cols-3 gap-1">
+                        {SNAPSHOT_FIELDS.map((field) => (
+                            <div key={field} className="contents">
+                                <dt className="font-semibold capitalize">{field}</dt>
+                                <dd className="col-span-2">{formatValue(snapshot.record?.[field])}</dd>
+                            </div>
+                        ))}
+                    </dl>
+                )}
+            </div>
+        </div>
+    );
+}
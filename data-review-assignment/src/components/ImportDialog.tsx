@@ -0,0 +1,195 @@
+import { ChangeEvent, useEffect, useState } from "react";
+import axios, { AxiosResponse } from "axios";
+import { DEFAULT_RULE_SET_ID } from "@/src/consts/datasets";
+import { IMPORT_FIELDS, ImportField } from "@/src/consts/fields";
+import { ColumnMapping, Dataset, ImportMappingRequired, ImportResult } from "@/src/types/dataset";
+import { RuleSet, RuleSetList } from "@/src/types/rules";
+
+interface ImportDialogProps {
+    onClose: () => void;
+    onImported: (dataset: Dataset) => void; // Called when the reviewer wants to open the new dataset
+}
+
+// Upload a CSV, confirm the column mapping if the headers don't match ours, then hand the new dataset back
+export default function ImportDialog({ onClose, onImported }: ImportDialogProps) {
+    const [name, setName] = useState<string>("");
+    const [ruleSets, setRuleSets] = useState<RuleSet[]>([]);
+    const [ruleSet, setRuleSet] = useState<string>(DEFAULT_RULE_SET_ID); // Different customers, different rules
+    const [csv, setCsv] = useState<string | null>(null);
+    const [mappingStep, setMappingStep] = useState<ImportMappingRequired | null>(null); // Set when the API asks us to confirm columns
+    const [mapping, setMapping] = useState<ColumnMapping>({});
+    const [result, setResult] = useState<ImportResult | null>(null);
+    const [submitting, setSubmitting] = useState<boolean>(false);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        axios
+            .get<RuleSetList>("/api/rules")
+            .then((response) => setRuleSets(response.data.ruleSets))
+            .catch((err) => console.error(err)); // The picker just stays on the default
+    }, []);
+
+    // Read the file in the browser—the API takes the CSV text in the request body
+    const handleFileChange = async (e: ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        if (!file) return;
+
+        setCsv(await file.text());
+        setName((current) => current || file.name.replace(/\.csv$/i, ""));
+        setMappingStep(null);
+        setError(null);
+    };
+
+    const submit = async (columnMapping?: ColumnMapping) => {
+        setSubmitting(true);
+        setError(null);
+        try {
+            const response: AxiosResponse<ImportMappingRequired | ImportResult> = await axios.post("/api/import", {
+                name,
+                csv,
+                mapping: columnMapping,
+                ruleSet,
+            });
+            if (response.data.needsMapping) {
+                setMappingStep(response.data);
+                setMapping(response.data.suggestedMapping);
+            } else {
+                setResult(response.data);
+            }
+        } catch (err) {
+            // The API explains what's wrong with the file (no rows, unmapped name column...), so pass that along
+            const message = axios.isAxiosError(err) ? err.response?.data?.error : null;
+            setError(message || "Import failed. Please try again later.");
+            console.error(err);
+        } finally {
+            setSubmitting(false);
+        }
+    };
+
+    const setFieldMapping = (field: ImportField, header: string) => {
+        setMapping((current) => ({ ...current, [field]: header || undefined }));
+    };
+
+    const renderMappingStep = (step: ImportMappingRequired) => (
+        <div className="space-y-3">
+            <p className="text-sm text-gray-700">
+                The column names in this file don&apos;t match ours. Pick the column each field should be read from.
+            </p>
+            <table className="w-full text-sm">
+                <thead>
+                    <tr className="text-left text-gray-600">
+                        <th className="py-1">Field</th>
+                        <th className="py-1">CSV column</th>
+                        <th className="py-1">First value</th>
+                    </tr>
+                </thead>
+                <tbody>
+                    {IMPORT_FIELDS.map((field) => (
+                        <tr key={field}>
+                            <td className="py-1 font-semibold capitalize">{field}</td>
+                            <td className="py-1">
+                                <select
+                                    value={mapping[field] || ""}
+                                    onChange={(e) => setFieldMapping(field, e.target.value)}
+                                    className="w-full p-1 border border-gray-300 rounded-md"
+                                >
+                                    <option value="">— not in this file —</option>
+                                    {step.headers.map((header) => (
+                                        <option key={header} value={header}>{header}</option>
+                                    ))}
+                                </select>
+                            </td>
+                            <td className="py-1 pl-2 text-gray-500 truncate max-w-40">
+                                {mapping[field] ? step.preview[0]?.[mapping[field]!] : ""}
+                            </td>
+                        </tr>
+                    ))}
+                </tbody>
+            </table>
+        </div>
+    );
+
+    const renderResult = (importResult: ImportResult) => (
+        <div className="space-y-2 text-sm text-gray-700">
+            <p>
+                Imported <strong>{importResult.summary.rowCount}</strong> records into <strong>{importResult.dataset.name}</strong>.
+            </p>
+            <p>
+                {importResult.summary.rowsWithErrors} records have validation errors ({importResult.summary.blocker} blockers,{" "}
+                {importResult.summary.critical} critical, {importResult.summary.warning} warnings).
+                {importResult.summary.info > 0 && ` There are also ${importResult.summary.info} info notes.`}
+            </p>
+            {importResult.summary.skippedRows > 0 && (
+                <p className="text-yellow-900">{importResult.summary.skippedRows} malformed rows were skipped.</p>
+            )}
+        </div>
+    );
+
+    return (
+        <div className="fixed inset-0 bg-gray-800 bg-opacity-75 flex items-center justify-center z-50">
+            <div className="bg-white rounded-lg shadow-2xl p-6 w-full max-w-lg relative">
+                <h2 className="text-2xl font-bold text-gray-800 mb-4">Import CSV</h2>
+
+                <div className="border-t border-gray-300 pt-4 space-y-4">
+                    {result ? (
+                        renderResult(result)
+                    ) : (
+                        <>
+                            <input type="file" accept=".csv,text/csv" onChange={handleFileChange} className="block w-full text-sm" />
+                            <input
+                                type="text"
+                                value={name}
+                                onChange={(e) => setName(e.target.value)}
+                                placeholder="Dataset name"
+                                className="w-full p-2 border border-gray-300 rounded-md"
+                            />
+                            <label className="flex items-center gap-2 text-sm text-gray-700">
+                                Validate with
+                                <select
+                                    value={ruleSet}
+                                    onChange={(e) => setRuleSet(e.target.value)}
+                                    className="flex-1 p-2 border border-gray-300 rounded-md"
+                                >
+                                    {ruleSets.length === 0 && <option value={DEFAULT_RULE_SET_ID}>Default</option>}
+                                    {ruleSets.map((set) => (
+                                        <option key={set.id} value={set.id}>
+                                            {set.name}
+                                        </option>
+                                    ))}
+                                </select>
+                            </label>
+                            {mappingStep && renderMappingStep(mappingStep)}
+                        </>
+                    )}
+
+                    {error && <p className="text-sm text-red-700">{error}</p>}
+                </div>
+
+                <div className="mt-6 flex gap-2">
+                    {result ? (
+                        <button
+                            onClick={() => onImported(result.dataset)}
+                            className="flex-1 bg-blue-600 text-white text-sm font-medium py-2 px-4 rounded-lg hover:bg-blue-700 transition duration-300"
+                        >
+                            Review dataset
+                        </button>
+                    ) : (
+                        <button
+                            onClick={() => submit(mappingStep ? mapping : undefined)}
+                            disabled={!csv || submitting}
+                            className="flex-1 bg-blue-600 text-white text-sm font-medium py-2 px-4 rounded-lg hover:bg-blue-700 transition duration-300 disabled:opacity-50"
+                        >
+                            {submitting ? "Importing..." : "Import"}
+                        </button>
+                    )}
+                    <button
+                        onClick={onClose}
+                        className="flex-1 bg-gray-200 text-gray-900 text-sm font-medium py-2 px-4 rounded-lg hover:bg-gray-300"
+                    >
+                        Close
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+}
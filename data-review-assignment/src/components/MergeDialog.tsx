@@ -0,0 +1,163 @@
+import { useState } from "react";
+import axios, { AxiosResponse } from "axios";
+import { MERGE_FIELDS, MergeField } from "@/src/consts/fields";
+import { DuplicateCluster, MergeRequest } from "@/src/types/duplicate";
+import { Record, ValidatedField } from "@/src/types/record";
+
+interface MergeDialogProps {
+    cluster: DuplicateCluster;
+    onClose: () => void;
+    onMerged: (survivor: Record) => void;
+}
+
+type PickedValues = { [field in MergeField]: string };
+
+// Start from the survivor's values, filling its blanks from the other included records
+const defaultValues = (survivor: Record, records: Record[]): PickedValues =>
+    Object.fromEntries(
+        MERGE_FIELDS.map((field) => [field, survivor[field] || records.find((record) => record[field])?.[field] || ""])
+    ) as PickedValues;
+
+// Keep the picks that still come from an included record; the rest go back to the defaults
+const keepIncludedPicks = (values: PickedValues, survivor: Record, records: Record[]): PickedValues => {
+    const defaults = defaultValues(survivor, records);
+    return Object.fromEntries(
+        MERGE_FIELDS.map((field) => [
+            field,
+            records.some((record) => (record[field] || "") === values[field]) ? values[field] : defaults[field],
+        ])
+    ) as PickedValues;
+};
+
+// Side-by-side view of a duplicate cluster: pick the record that survives, which records it absorbs,
+// and the value to keep for every field
+export default function MergeDialog({ cluster, onClose, onMerged }: MergeDialogProps) {
+    const [survivorId, setSurvivorId] = useState<number>(cluster.records[0].id);
+    const [included, setIncluded] = useState<Set<number>>(new Set(cluster.records.map((record) => record.id)));
+    const [values, setValues] = useState<PickedValues>(defaultValues(cluster.records[0], cluster.records));
+    const [submitting, setSubmitting] = useState<boolean>(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const includedRecords = (ids: Set<number>) => cluster.records.filter((record) => ids.has(record.id));
+
+    const chooseSurvivor = (record: Record) => {
+        const next = new Set(included).add(record.id);
+        setSurvivorId(record.id);
+        setIncluded(next);
+        setValues(defaultValues(record, includedRecords(next)));
+    };
+
+    // Not every record in a cluster has to be merged—leave out the ones that turn out to be someone else,
+    // along with any values already picked from them
+    const toggleIncluded = (record: Record) => {
+        const next = new Set(included);
+        if (next.has(record.id)) next.delete(record.id);
+        else next.add(record.id);
+        const survivor = cluster.records.find((candidate) => candidate.id === survivorId) || cluster.records[0];
+        setIncluded(next);
+        setValues((current) => keepIncludedPicks(current, survivor, includedRecords(next)));
+    };
+
+    const absorbedIds = cluster.records.map((record) => record.id).filter((id) => id !== survivorId && included.has(id));
+
+    const submit = async () => {
+        setSubmitting(true);
+        setError(null);
+        try {
+            const request: MergeRequest = { survivorId, absorbedIds, values };
+            const response: AxiosResponse<Record> = await axios.post("/api/duplicates/merge", request);
+            onMerged(response.data);
+        } catch (err) {
+            const message = axios.isAxiosError(err) ? err.response?.data?.error : null;
+            setError(message || "Merge failed. Please try again later.");
+            console.error(err);
+        } finally {
+            setSubmitting(false);
+        }
+    };
+
+    return (
+        <div className="fixed inset-0 bg-gray-800 bg-opacity-75 flex items-center justify-center z-50">
+            <div className="bg-white rounded-lg shadow-2xl p-6 w-full max-w-5xl max-h-screen overflow-auto relative">
+                <h2 className="text-2xl font-bold text-gray-800 mb-4">Merge duplicates</h2>
+
+                <div className="border-t border-gray-300 pt-4 overflow-x-auto">
+                    <table className="w-full text-sm text-left">
+                        <thead>
+                            <tr className="text-gray-600">
+                                <th className="p-2"></th>
+                                {cluster.records.map((record) => (
+                                    <th key={record.id} className="p-2 align-top">
+                                        <div className="font-semibold text-gray-900">Record {record.id}</div>
+                                        <label className="flex items-center gap-1 font-normal">
+                                            <input
+                                                type="radio"
+                                                name="survivor"
+                                                checked={survivorId === record.id}
+                                                onChange={() => chooseSurvivor(record)}
+                                            />
+                                            Keep this record
+                                        </label>
+                                        <label className="flex items-center gap-1 font-normal">
+                                            <input
+                                                type="checkbox"
+                                                checked={included.has(record.id)}
+                                                disabled={survivorId === record.id}
+                                                onChange={() => toggleIncluded(record)}
+                                            />
+                                            Include in merge
+                                        </label>
+                                    </th>
+                                ))}
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {MERGE_FIELDS.map((field) => (
+                                <tr key={field} className="border-t border-gray-200">
+                                    <td className="p-2 font-semibold capitalize">{field}</td>
+                                    {cluster.records.map((record) => (
+                                        <td
+                                            key={record.id}
+                                            className={`p-2 ${record.errors?.[field as ValidatedField] ? "text-red-900" : ""} ${
+                                                included.has(record.id) ? "" : "opacity-40"
+                                            }`}
+                                        >
+                                            <label className="flex items-center gap-2">
+                                                <input
+                                                    type="radio"
+                                                    name={`value-${field}`}
+                                                    checked={values[field] === (record[field] || "")}
+                                                    disabled={!included.has(record.id)}
+                                                    onChange={() => setValues((current) => ({ ...current, [field]: record[field] || "" }))}
+                                                />
+                                                {record[field] || <span className="text-gray-400">N/A</span>}
+                                            </label>
+                                        </td>
+                                    ))}
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+
+                {error && <p className="mt-4 text-sm text-red-700">{error}</p>}
+
+                <div className="mt-6 flex gap-2">
+                    <button
+                        onClick={submit}
+                        disabled={submitting || absorbedIds.length === 0}
+                        className="flex-1 bg-blue-600 text-white text-sm font-medium py-2 px-4 rounded-lg hover:bg-blue-700 transition duration-300 disabled:opacity-50"
+                    >
+                        {submitting ? "Merging..." : `Merge ${absorbedIds.length} into record ${survivorId}`}
+                    </button>
+                    <button
+                        onClick={onClose}
+                        className="flex-1 bg-gray-200 text-gray-900 text-sm font-medium py-2 px-4 rounded-lg hover:bg-gray-300"
+                    >
+                        Cancel
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,158 @@
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import axios from "axios";
+import { SEVERITIES, SEVERITY_LABELS } from "@/src/consts/severities";
+import { DatasetStats, ErrorRate } from "@/src/types/stats";
+
+interface QualityDashboardProps {
+    datasetId: string;
+}
+
+// Same hues as the severity icons
+const SEVERITY_BAR_COLORS = {
+    blocker: "bg-red-700",
+    critical: "bg-red-500",
+    warning: "bg-yellow-500",
+    info: "bg-sky-500",
+};
+
+const percent = (part: number, whole: number) => (whole === 0 ? 0 : Math.round((part / whole) * 100));
+
+// One row per city or status: the share of its records with errors
+function ErrorRateChart({ title, rates }: { title: string; rates: ErrorRate[] }) {
+    return (
+        <section className="border border-gray-300 rounded-md shadow-md p-4">
+            <h2 className="text-lg font-semibold mb-2">{title}</h2>
+            <ul className="space-y-1 text-sm max-h-80 overflow-y-auto">
+                {rates.map((rate) => (
+                    <li key={rate.value} className="grid grid-cols-[8rem_1fr_7rem] items-center gap-2">
+                        <span className="truncate capitalize" title={rate.value}>{rate.value}</span>
+                        <div className="h-3 rounded-full overflow-hidden bg-gray-200">
+                            <div className="h-full bg-red-500" style={{ width: `${percent(rate.withErrors, rate.records)}%` }} />
+                        </div>
+                        <span className="text-gray-600 text-right">
+                            {percent(rate.withErrors, rate.records)}% of {rate.records}
+                        </span>
+                    </li>
+                ))}
+            </ul>
+        </section>
+    );
+}
+
+// The numbers managers used to work out from the CSV every week: where the errors are, how bad they are,
+// and whether the dataset is getting cleaner
+export default function QualityDashboard({ datasetId }: QualityDashboardProps) {
+    const [stats, setStats] = useState<DatasetStats | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        const controller = new AbortController();
+        axios
+            .get<DatasetStats>("/api/stats", { params: { dataset: datasetId }, signal: controller.signal })
+            .then((response) => setStats(response.data))
+            .catch((err) => {
+                if (axios.isCancel(err)) return;
+                setError("Error fetching statistics. Please try again later.");
+                console.error(err);
+            });
+        return () => controller.abort();
+    }, [datasetId]);
+
+    if (error) {
+        return <div className="text-center text-red-500 mt-10">{error}</div>;
+    }
+
+    if (!stats) {
+        return <div className="text-center mt-10">Loading...</div>;
+    }
+
+    // Bars in the field chart share one scale so fields can be compared
+    const fieldTotals = stats.byField.map(({ errors }) => SEVERITIES.reduce((sum, severity) => sum + errors[severity], 0));
+    const maxFieldTotal = Math.max(...fieldTotals, 1);
+
+    return (
+        <div className="flex min-h-screen justify-center bg-white">
+            <div className="p-6 w-11/12 max-w-6xl space-y-6">
+                <div className="flex items-center justify-between">
+                    <h1 className="text-3xl font-bold">Data quality</h1>
+                    <Link href="/" className="text-sm text-blue-600 hover:underline">
+                        Back to records
+                    </Link>
+                </div>
+
+                {/* Headline numbers */}
+                <div className="grid grid-cols-2 md:grid-cols-6 gap-4 text-sm">
+                    <div className="p-4 rounded-md bg-gray-100">
+                        <div className="text-gray-600">Records</div>
+                        <div className="text-2xl font-bold">{stats.records}</div>
+                    </div>
+                    <div className="p-4 rounded-md bg-green-500/20 text-green-900">
+                        <div>Clean</div>
+                        <div className="text-2xl font-bold">{percent(stats.clean, stats.records)}%</div>
+                        <div className="text-xs">{stats.clean} records</div>
+                    </div>
+                    {SEVERITIES.map((severity) => (
+                        <div key={severity} className="p-4 rounded-md bg-gray-100">
+                            <div className="flex items-center gap-2 text-gray-600">
+                                <span className={`inline-block w-2 h-2 rounded-full ${SEVERITY_BAR_COLORS[severity]}`} />
+                                {SEVERITY_LABELS[severity]}
+                            </div>
+                            <div className="text-2xl font-bold">{stats.errors[severity]}</div>
+                        </div>
+                    ))}
+                </div>
+
+                {/* Errors by field, split by severity */}
+                <section className="border border-gray-300 rounded-md shadow-md p-4">
+                    <h2 className="text-lg font-semibold mb-2">Errors by field</h2>
+                    <ul className="space-y-2 text-sm">
+                        {stats.byField.map(({ field, errors }, index) => (
+                            <li key={field} className="grid grid-cols-[6rem_1fr_3rem] items-center gap-2">
+                                <span className="capitalize">{field}</span>
+                                <div className="flex h-4 rounded overflow-hidden bg-gray-100">
+                                    {SEVERITIES.map((severity) => (
+                                        <div
+                                            key={severity}
+                                            className={SEVERITY_BAR_COLORS[severity]}
+                                            style={{ width: `${(errors[severity] / maxFieldTotal) * 100}%` }}
+                                            title={`${SEVERITY_LABELS[severity]}: ${errors[severity]}`}
+                                        />
+                                    ))}
+                                </div>
+                                <span className="text-right text-gray-600">{fieldTotals[index]}</span>
+                            </li>
+                        ))}
+                    </ul>
+                </section>
+
+                <div className="grid md:grid-cols-2 gap-6">
+                    <ErrorRateChart title="Error rate by city" rates={stats.byCity} />
+                    <ErrorRateChart title="Error rate by status" rates={stats.byStatus} />
+                </div>
+
+                {/* Share of clean records at the end of each day with edits */}
+                <section className="border border-gray-300 rounded-md shadow-md p-4">
+                    <h2 className="text-lg font-semibold mb-2">Clean records over time</h2>
+                    {stats.trend.length < 2 ? (
+                        <p className="text-sm text-gray-600">Not enough history yet—the trend fills in as records are edited over the coming days.</p>
+                    ) : (
+                        <div className="flex items-end gap-2 h-48">
+                            {stats.trend.map((point) => (
+                                <div key={point.date} className="flex-1 flex flex-col items-center justify-end h-full text-xs">
+                                    <span className="text-gray-700">{percent(point.clean, point.records)}%</span>
+                                    <div
+                                        className="w-full bg-green-500 rounded-t"
+                                        style={{ height: `${percent(point.clean, point.records)}%` }}
+                                        title={`${point.clean} of ${point.records} records clean, ${point.errors} errors`}
+                                    />
+                                    <span className="mt-1 text-gray-500">{point.date.slice(5)}</span>
+                                </div>
+                            ))}
+                        </div>
+                    )}
+                </section>
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,17 @@
+import { REVIEW_STATE_LABELS, ReviewState } from "@/src/consts/review";
+
+const BADGE_COLORS: { [state in ReviewState]: string } = {
+    unreviewed: "bg-gray-200 text-gray-700",
+    in_review: "bg-blue-500/20 text-blue-900",
+    approved: "bg-green-500/20 text-green-900",
+    rejected: "bg-red-500/20 text-red-900",
+};
+
+// Small pill for a record's review state, used in the table and the modal
+export default function ReviewBadge({ state }: { state: ReviewState }) {
+    return (
+        <span className={`inline-block px-2 py-0.5 rounded-full text-xs font-medium whitespace-nowrap ${BADGE_COLORS[state]}`}>
+            {REVIEW_STATE_LABELS[state]}
+        </span>
+    );
+}
@@ -0,0 +1,86 @@
+import { useState } from "react";
+import axios, { AxiosResponse } from "axios";
+import { REVIEW_STATE_LABELS, REVIEW_TRANSITIONS, ReviewState } from "@/src/consts/review";
+import { hasBlockers, hasCriticalErrors, reviewStateOf } from "@/src/lib/review";
+import { Record } from "@/src/types/record";
+import ReviewBadge from "./ReviewBadge";
+
+interface ReviewControlsProps {
+    record: Record;
+    onChange: (updated: Record) => void;
+}
+
+// Review state for the record in the modal, with a button for every move allowed from here
+export default function ReviewControls({ record, onChange }: ReviewControlsProps) {
+    const [overrideReason, setOverrideReason] = useState<string>("");
+    const [busy, setBusy] = useState<boolean>(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const state = reviewStateOf(record);
+    const canApprove = REVIEW_TRANSITIONS[state].includes("approved");
+    const blocked = canApprove && hasBlockers(record); // No override for these—the record has to be fixed first
+    const needsOverride = canApprove && !blocked && hasCriticalErrors(record);
+
+    const move = async (to: ReviewState) => {
+        setBusy(true);
+        setError(null);
+        try {
+            const response: AxiosResponse<Record> = await axios.post(`/api/data/${record.id}/review`, {
+                state: to,
+                overrideReason: to === "approved" && needsOverride ? overrideReason : undefined,
+            });
+            setOverrideReason("");
+            onChange(response.data);
+        } catch (err) {
+            const message = axios.isAxiosError(err) ? err.response?.data?.error : null;
+            setError(message || "Couldn't update the review state. Please try again later.");
+            console.error(err);
+        } finally {
+            setBusy(false);
+        }
+    };
+
+    return (
+        <div className="mb-4 p-3 rounded-md bg-gray-100 text-sm space-y-2">
+            <div className="flex flex-wrap items-center gap-2">
+                <ReviewBadge state={state} />
+                {record.reviewedBy && record.reviewedAt && (
+                    <span className="text-xs text-gray-500">
+                        by {record.reviewedBy}, {new Date(record.reviewedAt).toLocaleString()}
+                    </span>
+                )}
+                <div className="ml-auto flex gap-2">
+                    {REVIEW_TRANSITIONS[state].map((to) => (
+                        <button
+                            key={to}
+                            onClick={() => move(to)}
+                            disabled={busy || (to === "approved" && (blocked || (needsOverride && !overrideReason.trim())))}
+                            className="px-2 py-1 rounded-md bg-white border border-gray-300 hover:bg-gray-200 disabled:opacity-50"
+                        >
+                            {to === "in_review" ? (state === "unreviewed" ? "Start review" : "Reopen") : REVIEW_STATE_LABELS[to]}
+                        </button>
+                    ))}
+                </div>
+            </div>
+
+            {record.overrideReason && state === "approved" && (
+                <p className="text-xs text-gray-700">Approved despite critical errors: {record.overrideReason}</p>
+            )}
+
+            {blocked && <p className="text-xs text-red-900">This record has blocker errors—fix them before approving it.</p>}
+
+            {/* Critical errors block approval unless the reviewer says why it's fine */}
+            {needsOverride && (
+                <textarea
+                    value={overrideReason}
+                    onChange={(e) => setOverrideReason(e.target.value)}
+                    placeholder="This record has critical errors—explain why it can be approved anyway"
+                    rows={2}
+                    className="w-full p-2 border border-gray-300 rounded-md"
+                />
+            )}
+
+            {error && <p className="text-red-700">{error}</p>}
+        </div>
+    );
+}
@@ -0,0 +1,40 @@
+import { REVIEW_STATE_LABELS, REVIEW_STATES } from "@/src/consts/review";
+import { ReviewCounts } from "@/src/types/record";
+
+const SEGMENT_COLORS = {
+    approved: "bg-green-500",
+    rejected: "bg-red-500",
+    in_review: "bg-blue-500",
+    unreviewed: "bg-gray-200",
+};
+
+// How much of the dataset is approved, with the rejected ones called out separately—a rejection is a decision,
+// but not a record we can use
+export default function ReviewProgress({ counts }: { counts: ReviewCounts }) {
+    const total = REVIEW_STATES.reduce((sum, state) => sum + counts[state], 0);
+    if (total === 0) return null;
+
+    return (
+        <div className="mb-4 text-sm">
+            <div className="flex justify-between text-gray-700 mb-1">
+                <span>
+                    <strong>{counts.approved}</strong> of {total} records approved ({Math.round((counts.approved / total) * 100)}%)
+                    {counts.rejected > 0 && <span className="text-red-700"> · {counts.rejected} rejected</span>}
+                </span>
+                <span className="text-gray-500">
+                    {REVIEW_STATES.map((state) => `${REVIEW_STATE_LABELS[state]}: ${counts[state]}`).join(" · ")}
+                </span>
+            </div>
+            <div className="flex h-2 rounded-full overflow-hidden bg-gray-200">
+                {(["approved", "rejected", "in_review"] as const).map((state) => (
+                    <div
+                        key={state}
+                        className={SEGMENT_COLORS[state]}
+                        style={{ width: `${(counts[state] / total) * 100}%` }}
+                        title={`${REVIEW_STATE_LABELS[state]}: ${counts[state]}`}
+                    />
+                ))}
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,135 @@
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import axios from "axios";
+import { DEFAULT_RULE_SET_ID } from "@/src/consts/datasets";
+import { crossFieldFields, describeCrossFieldRule } from "@/src/lib/crossField";
+import { Dataset } from "@/src/types/dataset";
+import { Rule, RuleSetList } from "@/src/types/rules";
+
+const CHECK_DESCRIPTIONS = {
+    email: "Email syntax, domain typos, disposable and role addresses",
+    phone: "Parses the number (US and international) and checks the house format",
+    zipcodeLocation: "ZIP exists and lies in the record's city",
+};
+
+// One line on what the rule actually checks, in the reviewer's terms rather than the file's
+const describeRule = (rule: Rule) => {
+    switch (rule.type) {
+        case "required":
+            return "Must be filled in";
+        case "regex":
+            return (
+                <>
+                    {rule.negate ? "Must not match" : "Must match"} <code>{rule.pattern}</code>
+                    {rule.flags && <code>/{rule.flags}</code>}
+                    {rule.fix && ` (offers a ${rule.fix} fix)`}
+                </>
+            );
+        case "length":
+            if (rule.min !== undefined && rule.max !== undefined) return `${rule.min}–${rule.max} characters`;
+            return rule.min !== undefined ? `At least ${rule.min} characters` : `At most ${rule.max} characters`;
+        case "lookup":
+            return `One of: ${rule.values.join(", ")}`;
+        case "cross-field":
+            return describeCrossFieldRule(rule);
+        case "check":
+            return CHECK_DESCRIPTIONS[rule.check];
+    }
+};
+
+// Read-only view of every rule set in rules/ and which datasets use it. Rules are changed by editing the files.
+export default function RulesOverview() {
+    const [rules, setRules] = useState<RuleSetList | null>(null);
+    const [datasets, setDatasets] = useState<Dataset[]>([]);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        const controller = new AbortController();
+        Promise.all([
+            axios.get<RuleSetList>("/api/rules", { signal: controller.signal }),
+            axios.get<{ datasets: Dataset[] }>("/api/datasets", { signal: controller.signal }),
+        ])
+            .then(([rulesResponse, datasetsResponse]) => {
+                setRules(rulesResponse.data);
+                setDatasets(datasetsResponse.data.datasets);
+            })
+            .catch((err) => {
+                if (axios.isCancel(err)) return;
+                setError("Error fetching rules. Please try again later.");
+                console.error(err);
+            });
+        return () => controller.abort();
+    }, []);
+
+    if (error) {
+        return <div className="text-center text-red-500 mt-10">{error}</div>;
+    }
+
+    if (!rules) {
+        return <div className="text-center mt-10">Loading...</div>;
+    }
+
+    return (
+        <div className="flex min-h-screen justify-center bg-white">
+            <div className="p-6 w-11/12 max-w-6xl">
+                <div className="mb-6 flex items-center justify-between">
+                    <h1 className="text-3xl font-bold">Validation rules</h1>
+                    <Link href="/" className="text-sm text-blue-600 hover:underline">
+                        Back to records
+                    </Link>
+                </div>
+
+                {rules.invalid.map(({ id, error: reason }) => (
+                    <p key={id} className="mb-4 p-2 rounded-md bg-red-500/20 text-red-900 text-sm">
+                        <code>rules/{id}.json</code> couldn&apos;t be loaded: {reason}. Datasets using it will fail to load until it&apos;s fixed.
+                    </p>
+                ))}
+
+                <div className="space-y-6">
+                    {rules.ruleSets.map((ruleSet) => {
+                        const usedBy = datasets.filter((dataset) => (dataset.ruleSet || DEFAULT_RULE_SET_ID) === ruleSet.id);
+                        return (
+                            <section key={ruleSet.id} className="border border-gray-300 rounded-md shadow-md p-4">
+                                <h2 className="text-xl font-semibold">
+                                    {ruleSet.name} <code className="text-sm font-normal text-gray-500">rules/{ruleSet.id}.json</code>
+                                </h2>
+                                {ruleSet.description && <p className="text-sm text-gray-700">{ruleSet.description}</p>}
+                                <p className="mt-1 text-sm text-gray-500">
+                                    Used by {usedBy.length > 0 ? usedBy.map((dataset) => dataset.name).join(", ") : "no datasets yet"}
+                                </p>
+
+                                <table className="mt-4 w-full text-sm text-left">
+                                    <thead>
+                                        <tr className="text-gray-600">
+                                            <th className="py-1 pr-2">Field</th>
+                                            <th className="py-1 pr-2">Rule</th>
+                                            <th className="py-1 pr-2">Checks</th>
+                                            <th className="py-1 pr-2">Message</th>
+                                            <th className="py-1">Severity</th>
+                                        </tr>
+                                    </thead>
+                                    <tbody>
+                                        {ruleSet.rules.map((rule) => (
+                                            <tr key={rule.id} className="border-t border-gray-200 align-top">
+                                                <td className="py-1 pr-2 capitalize">
+                                                    {rule.type === "cross-field" ? crossFieldFields(rule).join(", ") : rule.field}
+                                                </td>
+                                                <td className="py-1 pr-2">
+                                                    <code>{rule.id}</code>
+                                                    <div className="text-xs text-gray-500">{rule.type}</div>
+                                                </td>
+                                                <td className="py-1 pr-2">{describeRule(rule)}</td>
+                                                <td className="py-1 pr-2">{rule.message || <span className="text-gray-400">(from the check)</span>}</td>
+                                                <td className="py-1 capitalize">{rule.severity || <span className="text-gray-400">varies</span>}</td>
+                                            </tr>
+                                        ))}
+                                    </tbody>
+                                </table>
+                            </section>
+                        );
+                    })}
+                </div>
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,14 @@
+// Green for healthy records, yellow for ones with a few warnings, red once anything serious is wrong
+const barColor = (score: number) => (score >= 90 ? "bg-green-500" : score >= 60 ? "bg-yellow-500" : "bg-red-500");
+
+// A record's 0–100 quality score as a number and a small bar
+export default function ScoreBar({ score }: { score: number }) {
+    return (
+        <div className="flex items-center gap-2 text-sm" title={`Quality score ${score} of 100`}>
+            <span className="w-8 text-right font-semibold text-gray-800">{score}</span>
+            <div className="w-16 h-2 rounded-full overflow-hidden bg-gray-200">
+                <div className={`h-full ${barColor(score)}`} style={{ width: `${score}%` }} />
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,56 @@
+import { STATUSES, Status } from "@/src/consts/fields";
+import { REVIEW_STATE_LABELS, REVIEW_STATES, ReviewState } from "@/src/consts/review";
+
+interface SelectionToolbarProps {
+    count: number;
+    busy: boolean; // A bulk request is in flight
+    onSetStatus: (status: Status) => void;
+    onSetReviewState: (state: ReviewState) => void;
+    onExport: () => void;
+    onClear: () => void;
+}
+
+// Shown above the table while any records are selected
+export default function SelectionToolbar({ count, busy, onSetStatus, onSetReviewState, onExport, onClear }: SelectionToolbarProps) {
+    return (
+        <div className="mb-2 flex flex-wrap items-center gap-2 p-2 rounded-md bg-blue-500/10 text-sm">
+            <span className="font-semibold text-blue-900 mr-2">{count} selected</span>
+
+            <span className="text-gray-600">Set status:</span>
+            {STATUSES.map((status) => (
+                <button
+                    key={status}
+                    onClick={() => onSetStatus(status)}
+                    disabled={busy}
+                    className="px-2 py-1 rounded-md bg-white border border-gray-300 capitalize hover:bg-gray-100 disabled:opacity-50"
+                >
+                    {status}
+                </button>
+            ))}
+
+            {/* Records that can't make the move (or have critical errors, for approve) are skipped and reported back */}
+            <span className="ml-2 text-gray-600">Review:</span>
+            {REVIEW_STATES.map((state) => (
+                <button
+                    key={state}
+                    onClick={() => onSetReviewState(state)}
+                    disabled={busy}
+                    className="px-2 py-1 rounded-md bg-white border border-gray-300 hover:bg-gray-100 disabled:opacity-50"
+                >
+                    {REVIEW_STATE_LABELS[state]}
+                </button>
+            ))}
+
+            <button
+                onClick={onExport}
+                disabled={busy}
+                className="ml-2 px-2 py-1 rounded-md bg-white border border-gray-300 hover:bg-gray-100 disabled:opacity-50"
+            >
+                Export selected
+            </button>
+            <button onClick={onClear} disabled={busy} className="ml-auto text-blue-600 hover:underline disabled:opacity-50">
+                Clear selection
+            </button>
+        </div>
+    );
+}
@@ -0,0 +1,34 @@
+import { Severity } from "@/src/consts/severities";
+
+// Solid 20px icons, one shape per severity so they can be told apart without the colour
+const ICONS: { [severity in Severity]: { className: string; path: string } } = {
+    // Blocker (no-entry icon)
+    blocker: {
+        className: "text-red-700",
+        path: "M13.477 14.89A6 6 0 015.11 6.524l8.367 8.368zm1.414-1.414L6.524 5.11a6 6 0 018.367 8.367zM18 10a8 8 0 11-16 0 8 8 0 0116 0z",
+    },
+    // Critical (X icon)
+    critical: {
+        className: "text-red-500",
+        path: "M10 18a8 8 0 100-16 8 8 0 000 16zm3.707-9.707a1 1 0 00-1.414-1.414L10 8.586 7.707 6.293a1 1 0 10-1.414 1.414L8.586 10l-2.293 2.293a1 1 0 101.414 1.414L10 11.414l2.293 2.293a1 1 0 001.414-1.414L11.414 10l2.293-2.293z",
+    },
+    // Warning (exclamation mark icon)
+    warning: {
+        className: "text-yellow-500",
+        path: "M18 10c0 4.418-3.582 8-8 8S2 14.418 2 10 5.582 2 10 2s8 3.582 8 8zm-9 4a1 1 0 102 0v-2a1 1 0 00-2 0v2zm2-7a1 1 0 11-2 0v3a1 1 0 112 0V7z",
+    },
+    // Info ("i" icon)
+    info: {
+        className: "text-sky-500",
+        path: "M18 10a8 8 0 11-16 0 8 8 0 0116 0zm-7-4a1 1 0 11-2 0 1 1 0 012 0zM9 9a1 1 0 000 2v3a1 1 0 001 1h1a1 1 0 100-2v-3a1 1 0 00-1-1H9z",
+    },
+};
+
+export default function SeverityIcon({ severity }: { severity: Severity }) {
+    const { className, path } = ICONS[severity];
+    return (
+        <svg xmlns="http://www.w3.org/2000/svg" className={`h-6 w-6 ${className}`} viewBox="0 0 20 20" fill="currentColor" aria-label={severity}>
+            <path fillRule="evenodd" d={path} clipRule="evenodd" />
+        </svg>
+    );
+}
@@ -0,0 +1,38 @@
+import { MouseEvent } from "react";
+import { SortField, SortSpec } from "@/src/lib/tableQuery";
+
+interface SortableHeaderProps {
+    label: string;
+    field: SortField;
+    sort: SortSpec[];
+    onSort: (field: SortField, multi: boolean) => void;
+}
+
+// A <th> that toggles sorting on click (shift-click to add it to a multi-column sort)
+export default function SortableHeader({ label, field, sort, onSort }: SortableHeaderProps) {
+    const index = sort.findIndex((spec) => spec.field === field);
+    const spec = index >= 0 ? sort[index] : null;
+
+    const handleClick = (e: MouseEvent) => {
+        e.preventDefault(); // Shift-click would otherwise select the header text
+        onSort(field, e.shiftKey);
+    };
+
+    return (
+        <th
+            className="border-y border-blue-gray-100 bg-blue-gray-50/50 p-4 cursor-pointer select-none hover:bg-gray-100"
+            onClick={handleClick}
+            aria-sort={spec ? (spec.order === "asc" ? "ascending" : "descending") : "none"}
+            title="Click to sort, shift-click to sort by several columns"
+        >
+            <span className="inline-flex items-center gap-1">
+                {label}
+                <span className={`text-xs ${spec ? "text-gray-900" : "text-gray-300"}`}>
+                    {spec?.order === "desc" ? "▼" : "▲"}
+                </span>
+                {/* Only show the priority once there's more than one column to rank */}
+                {spec && sort.length > 1 && <span className="text-xs text-gray-500">{index + 1}</span>}
+            </span>
+        </th>
+    );
+}
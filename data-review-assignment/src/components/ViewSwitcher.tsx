@@ -0,0 +1,172 @@
+import { useEffect, useState } from "react";
+import axios, { AxiosResponse } from "axios";
+import { ANONYMOUS_REVIEWER, encodeReviewer, REVIEWER_HEADER } from "@/src/lib/reviewer";
+import { normalizeViewSettings } from "@/src/lib/views";
+import { SavedView, ViewRequest, ViewSettings } from "@/src/types/view";
+
+interface ViewSwitcherProps {
+    reviewer: string;
+    current: ViewSettings; // What the table is showing right now—what "Save" stores
+    onApply: (settings: ViewSettings) => void;
+}
+
+// Same pause as the search box—the reviewer name is typed a letter at a time too
+const REVIEWER_DEBOUNCE_MS = 300;
+
+// Saved views above the table: pick one to restore its search, filters, sort, columns and page size,
+// or save what's on screen under a name (optionally shared with the team)
+export default function ViewSwitcher({ reviewer, current, onApply }: ViewSwitcherProps) {
+    const [views, setViews] = useState<SavedView[]>([]);
+    const [selectedId, setSelectedId] = useState<string>("");
+    const [naming, setNaming] = useState<boolean>(false); // The "Save as" form is open
+    const [name, setName] = useState<string>("");
+    const [shared, setShared] = useState<boolean>(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const user = reviewer.trim() || ANONYMOUS_REVIEWER;
+    // Sent explicitly—the axios default header is set by the parent, whose effects run after ours
+    const headers = { [REVIEWER_HEADER]: encodeReviewer(user) };
+
+    useEffect(() => {
+        const controller = new AbortController();
+        const timeout = setTimeout(() => {
+            axios
+                .get<{ views: SavedView[] }>("/api/views", { headers: { [REVIEWER_HEADER]: encodeReviewer(user) }, signal: controller.signal })
+                .then((response) => setViews(response.data.views))
+                .catch((err) => {
+                    if (axios.isCancel(err)) return;
+                    console.error(err); // The switcher just stays empty—the table itself still works
+                });
+        }, REVIEWER_DEBOUNCE_MS);
+        return () => {
+            clearTimeout(timeout);
+            controller.abort();
+        };
+    }, [user]);
+
+    const selected = views.find((view) => view.id === selectedId);
+    // Compared the way the server stores them, so trimming and reordering don't count as changes
+    const sameSettings = (a: ViewSettings, b: ViewSettings) =>
+        JSON.stringify(normalizeViewSettings(a)) === JSON.stringify(normalizeViewSettings(b));
+    const modified = selected !== undefined && !sameSettings(selected.settings, current);
+    const ownViews = views.filter((view) => view.owner === user);
+    const sharedViews = views.filter((view) => view.owner !== user);
+
+    // Runs a request against /api/views and shows its error message if it fails
+    const send = async <T,>(request: () => Promise<AxiosResponse<T>>): Promise<T | null> => {
+        setError(null);
+        try {
+            return (await request()).data;
+        } catch (err) {
+            const message = axios.isAxiosError(err) ? err.response?.data?.error : null;
+            setError(message || "Couldn't save the view. Please try again later.");
+            console.error(err);
+            return null;
+        }
+    };
+
+    const choose = (id: string) => {
+        setSelectedId(id);
+        const view = views.find((v) => v.id === id);
+        if (view) onApply(view.settings);
+    };
+
+    const saveAs = async () => {
+        const body: ViewRequest = { name, shared, settings: current };
+        const created = await send(() => axios.post<SavedView>("/api/views", body, { headers }));
+        if (!created) return;
+        setViews((existing) => [...existing, created].sort((a, b) => a.name.localeCompare(b.name)));
+        setSelectedId(created.id);
+        setNaming(false);
+        setName("");
+    };
+
+    const update = async () => {
+        const updated = await send(() => axios.put<SavedView>(`/api/views/${selectedId}`, { settings: current }, { headers }));
+        if (updated) setViews((existing) => existing.map((view) => (view.id === updated.id ? updated : view)));
+    };
+
+    const remove = async () => {
+        if (!selected || !window.confirm(`Delete the view "${selected.name}"?`)) return;
+        const deleted = await send(() => axios.delete(`/api/views/${selected.id}`, { headers }));
+        if (deleted === null) return;
+        setViews((existing) => existing.filter((view) => view.id !== selected.id));
+        setSelectedId("");
+    };
+
+    return (
+        <div className="mb-4 flex flex-wrap items-center gap-2 text-sm">
+            <label htmlFor="saved-view" className="font-semibold text-gray-700">
+                View
+            </label>
+            <select id="saved-view" value={selectedId} onChange={(e) => choose(e.target.value)} className="p-1 border border-gray-300 rounded-md">
+                <option value="">{views.length === 0 ? "No saved views" : "Choose a view..."}</option>
+                {ownViews.length > 0 && (
+                    <optgroup label="My views">
+                        {ownViews.map((view) => (
+                            <option key={view.id} value={view.id}>
+                                {view.name}
+                                {view.shared ? " (shared)" : ""}
+                            </option>
+                        ))}
+                    </optgroup>
+                )}
+                {sharedViews.length > 0 && (
+                    <optgroup label="Shared by the team">
+                        {sharedViews.map((view) => (
+                            <option key={view.id} value={view.id}>
+                                {view.name} ({view.owner})
+                            </option>
+                        ))}
+                    </optgroup>
+                )}
+            </select>
+            {modified && <span className="text-gray-500">(modified)</span>}
+
+            {/* Only the owner can change a view; everyone else can save their own copy */}
+            {selected?.owner === user && modified && (
+                <button onClick={update} className="px-2 py-1 rounded-md bg-gray-200 hover:bg-gray-300">
+                    Update view
+                </button>
+            )}
+            {selected?.owner === user && (
+                <button onClick={remove} className="px-2 py-1 rounded-md bg-gray-200 hover:bg-gray-300">
+                    Delete
+                </button>
+            )}
+
+            {naming ? (
+                <>
+                    <input
+                        type="text"
+                        value={name}
+                        onChange={(e) => setName(e.target.value)}
+                        placeholder="View name"
+                        aria-label="View name"
+                        className="p-1 border border-gray-300 rounded-md"
+                    />
+                    <label className="flex items-center gap-1">
+                        <input type="checkbox" checked={shared} onChange={(e) => setShared(e.target.checked)} />
+                        Share with the team
+                    </label>
+                    <button
+                        onClick={saveAs}
+                        disabled={!name.trim()}
+                        className="px-2 py-1 rounded-md bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50"
+                    >
+                        Save
+                    </button>
+                    <button onClick={() => setNaming(false)} className="px-2 py-1 rounded-md bg-gray-200 hover:bg-gray-300">
+                        Cancel
+                    </button>
+                </>
+            ) : (
+                <button onClick={() => setNaming(true)} className="px-2 py-1 rounded-md bg-gray-200 hover:bg-gray-300">
+                    Save as new view...
+                </button>
+            )}
+
+            {error && <span className="text-red-700">{error}</span>}
+        </div>
+    );
+}
@@ -0,0 +1,21 @@
+// consts/columns.ts
+
+import { SortField } from "@/src/lib/tableQuery";
+
+// Every column the table can show, in display order. Each one sorts by the field of the same name.
+export const TABLE_COLUMNS = ["id", "name", "email", "street", "city", "zipcode", "phone", "status", "review", "score", "severity"] as const;
+export type TableColumn = (typeof TABLE_COLUMNS)[number] & SortField;
+
+export const COLUMN_LABELS: { [column in TableColumn]: string } = {
+    id: "ID",
+    name: "Name",
+    email: "Email",
+    street: "Street",
+    city: "City",
+    zipcode: "Zipcode",
+    phone: "Phone",
+    status: "Status",
+    review: "Review",
+    score: "Score",
+    severity: "Error Summary",
+};
@@ -9,16 +9,6 @@ export const MOCK_DATA = {
       zipcode: "",
       phone: "917-758-1154",
       status: "pending",
-      errors: {
-        zipcode: {
-          message: "Zipcode is missing",
-          severity: "warning",
-        },
-        street: {
-          message: "Street address is missing",
-          severity: "warning",
-        },
-      },
     },
     {
       id: 2,
@@ -29,12 +19,6 @@ export const MOCK_DATA = {
       zipcode: "21175",
       phone: "961-490-2953",
       status: "active",
-      errors: {
-        email: {
-          message: "Invalid email format",
-          severity: "warning",
-        },
-      },
     },
     {
       id: 3,
@@ -45,16 +29,6 @@ export const MOCK_DATA = {
       zipcode: "37164",
       phone: "586-661-4545",
       status: "active",
-      errors: {
-        zipcode: {
-          message: "Zipcode is missing",
-          severity: "critical",
-        },
-        phone: {
-          message: "Invalid phone format",
-          severity: "critical",
-        },
-      },
     },
     {
       id: 4,
@@ -65,20 +39,6 @@ export const MOCK_DATA = {
       zipcode: "",
       phone: "319-708-4258",
       status: "pending",
-      errors: {
-        zipcode: {
-          message: "Invalid zipcode",
-          severity: "warning",
-        },
-        phone: {
-          message: "Invalid phone format",
-          severity: "critical",
-        },
-        email: {
-          message: "Invalid email format",
-          severity: "critical",
-        },
-      },
     },
     {
       id: 5,
@@ -89,20 +49,6 @@ export const MOCK_DATA = {
       zipcode: "20022",
       phone: "248-840-9878",
       status: "inactive",
-      errors: {
-        zipcode: {
-          message: "Invalid zipcode",
-          severity: "warning",
-        },
-        street: {
-          message: "Street address is missing",
-          severity: "warning",
-        },
-        phone: {
-          message: "Invalid phone format",
-          severity: "critical",
-        },
-      },
     },
     {
       id: 6,
@@ -113,16 +59,6 @@ export const MOCK_DATA = {
       zipcode: "19476",
       phone: "806-983-3227",
       status: "pending",
-      errors: {
-        zipcode: {
-          message: "Invalid zipcode",
-          severity: "warning",
-        },
-        street: {
-          message: "Street address is missing",
-          severity: "warning",
-        },
-      },
     },
     {
       id: 7,
@@ -133,20 +69,6 @@ export const MOCK_DATA = {
       zipcode: "51106",
       phone: "762-701-4053",
       status: "inactive",
-      errors: {
-        email: {
-          message: "Invalid email format",
-          severity: "warning",
-        },
-        phone: {
-          message: "Invalid phone format",
-          severity: "critical",
-        },
-        street: {
-          message: "Street address is missing",
-          severity: "warning",
-        },
-      },
     },
     {
       id: 8,
@@ -157,12 +79,6 @@ export const MOCK_DATA = {
       zipcode: "94973",
       phone: "991-994-6685",
       status: "inactive",
-      errors: {
-        phone: {
-          message: "Invalid phone format",
-          severity: "critical",
-        },
-      },
     },
     {
       id: 9,
@@ -173,12 +89,6 @@ export const MOCK_DATA = {
       zipcode: "56854",
       phone: "993-840-9107",
       status: "pending",
-      errors: {
-        phone: {
-          message: "Invalid phone format",
-          severity: "critical",
-        },
-      },
     },
     {
       id: 10,
@@ -189,16 +99,6 @@ export const MOCK_DATA = {
       zipcode: "79531",
       phone: "122-798-9767",
       status: "active",
-      errors: {
-        street: {
-          message: "Street address is missing",
-          severity: "warning",
-        },
-        email: {
-          message: "Invalid email format",
-          severity: "warning",
-        },
-      },
     },
     {
       id: 11,
@@ -209,12 +109,6 @@ export const MOCK_DATA = {
       zipcode: "69213",
       phone: "",
       status: "inactive",
-      errors: {
-        email: {
-          message: "Invalid email format",
-          severity: "critical",
-        },
-      },
     },
     {
       id: 12,
@@ -225,16 +119,6 @@ export const MOCK_DATA = {
       zipcode: "36994",
       phone: "754-623-4255",
       status: "inactive",
-      errors: {
-        phone: {
-          message: "Invalid phone format",
-          severity: "critical",
-        },
-        street: {
-          message: "Street address is missing",
-          severity: "warning",
-        },
-      },
     },
     {
       id: 13,
@@ -245,12 +129,6 @@ export const MOCK_DATA = {
       zipcode: "10964",
       phone: "741-951-2858",
       status: "inactive",
-      errors: {
-        email: {
-          message: "Invalid email format",
-          severity: "warning",
-        },
-      },
     },
     {
       id: 14,
@@ -261,12 +139,6 @@ export const MOCK_DATA = {
       zipcode: "58467",
       phone: "370-261-6927",
       status: "inactive",
-      errors: {
-        street: {
-          message: "Street address is missing",
-          severity: "warning",
-        },
-      },
     },
     {
       id: 15,
@@ -277,12 +149,6 @@ export const MOCK_DATA = {
       zipcode: "",
       phone: "896-535-3687",
       status: "pending",
-      errors: {
-        email: {
-          message: "Invalid email format",
-          severity: "critical",
-        },
-      },
     },
     {
       id: 16,
@@ -293,12 +159,6 @@ export const MOCK_DATA = {
       zipcode: "",
       phone: "934-259-9571",
       status: "active",
-      errors: {
-        phone: {
-          message: "Invalid phone format",
-          severity: "critical",
-        },
-      },
     },
     {
       id: 17,
@@ -309,16 +169,6 @@ export const MOCK_DATA = {
       zipcode: "16132",
       phone: "573-638-9762",
       status: "pending",
-      errors: {
-        phone: {
-          message: "Invalid phone format",
-          severity: "critical",
-        },
-        street: {
-          message: "Street address is missing",
-          severity: "warning",
-        },
-      },
     },
     {
       id: 18,
@@ -329,16 +179,6 @@ export const MOCK_DATA = {
       zipcode: "66398",
       phone: "338-310-1579",
       status: "pending",
-      errors: {
-        phone: {
-          message: "Invalid phone format",
-          severity: "critical",
-        },
-        street: {
-          message: "Street address is missing",
-          severity: "warning",
-        },
-      },
     },
     {
       id: 19,
@@ -349,16 +189,6 @@ export const MOCK_DATA = {
       zipcode: "34250",
       phone: "890-824-6096",
       status: "pending",
-      errors: {
-        email: {
-          message: "Invalid email format",
-          severity: "warning",
-        },
-        zipcode: {
-          message: "Invalid zipcode",
-          severity: "critical",
-        },
-      },
     },
     {
       id: 20,
@@ -369,16 +199,6 @@ export const MOCK_DATA = {
       zipcode: "66759",
       phone: "474-207-1818",
       status: "pending",
-      errors: {
-        street: {
-          message: "Street address is missing",
-          severity: "warning",
-        },
-        email: {
-          message: "Invalid email format",
-          severity: "warning",
-        },
-      },
     },
     {
       id: 21,
@@ -389,16 +209,6 @@ export const MOCK_DATA = {
       zipcode: "",
       phone: "744-845-8563",
       status: "active",
-      errors: {
-        zipcode: {
-          message: "Zipcode is missing",
-          severity: "critical",
-        },
-        street: {
-          message: "Street address is missing",
-          severity: "warning",
-        },
-      },
     },
     {
       id: 22,
@@ -409,12 +219,6 @@ export const MOCK_DATA = {
       zipcode: "",
       phone: "984-860-6381",
       status: "pending",
-      errors: {
-        phone: {
-          message: "Invalid phone format",
-          severity: "critical",
-        },
-      },
     },
     {
       id: 23,
@@ -425,20 +229,6 @@ export const MOCK_DATA = {
       zipcode: "21151",
       phone: "999-117-2557",
       status: "inactive",
-      errors: {
-        phone: {
-          message: "Invalid phone format",
-          severity: "critical",
-        },
-        email: {
-          message: "Invalid email format",
-          severity: "warning",
-        },
-        zipcode: {
-          message: "Zipcode is missing",
-          severity: "critical",
-        },
-      },
     },
     {
       id: 24,
@@ -449,12 +239,6 @@ export const MOCK_DATA = {
       zipcode: "10085",
       phone: "274-567-3254",
       status: "pending",
-      errors: {
-        email: {
-          message: "Invalid email format",
-          severity: "critical",
-        },
-      },
     },
     {
       id: 25,
@@ -465,12 +249,6 @@ export const MOCK_DATA = {
       zipcode: "44081",
       phone: "214-468-4409",
       status: "inactive",
-      errors: {
-        street: {
-          message: "Street address is missing",
-          severity: "warning",
-        },
-      },
     },
     {
       id: 26,
@@ -481,16 +259,6 @@ export const MOCK_DATA = {
       zipcode: "46873",
       phone: "241-265-2386",
       status: "pending",
-      errors: {
-        phone: {
-          message: "Invalid phone format",
-          severity: "critical",
-        },
-        zipcode: {
-          message: "Invalid zipcode",
-          severity: "critical",
-        },
-      },
     },
     {
       id: 27,
@@ -501,16 +269,6 @@ export const MOCK_DATA = {
       zipcode: "53127",
       phone: "",
       status: "inactive",
-      errors: {
-        zipcode: {
-          message: "Zipcode is missing",
-          severity: "warning",
-        },
-        email: {
-          message: "Invalid email format",
-          severity: "warning",
-        },
-      },
     },
     {
       id: 28,
@@ -521,20 +279,6 @@ export const MOCK_DATA = {
       zipcode: "87831",
       phone: "119-633-1108",
       status: "pending",
-      errors: {
-        phone: {
-          message: "Invalid phone format",
-          severity: "critical",
-        },
-        zipcode: {
-          message: "Zipcode is missing",
-          severity: "warning",
-        },
-        email: {
-          message: "Invalid email format",
-          severity: "warning",
-        },
-      },
     },
     {
       id: 29,
@@ -545,12 +289,6 @@ export const MOCK_DATA = {
       zipcode: "67401",
       phone: "",
       status: "inactive",
-      errors: {
-        email: {
-          message: "Invalid email format",
-          severity: "critical",
-        },
-      },
     },
     {
       id: 30,
@@ -561,12 +299,6 @@ export const MOCK_DATA = {
       zipcode: "19232",
       phone: "922-414-5775",
       status: "active",
-      errors: {
-        street: {
-          message: "Street address is missing",
-          severity: "warning",
-        },
-      },
     },
     {
       id: 31,
@@ -577,12 +309,6 @@ export const MOCK_DATA = {
       zipcode: "47644",
       phone: "972-625-6549",
       status: "pending",
-      errors: {
-        street: {
-          message: "Street address is missing",
-          severity: "warning",
-        },
-      },
     },
     {
       id: 32,
@@ -593,12 +319,6 @@ export const MOCK_DATA = {
       zipcode: "52471",
       phone: "",
       status: "inactive",
-      errors: {
-        street: {
-          message: "Street address is missing",
-          severity: "warning",
-        },
-      },
     },
     {
       id: 33,
@@ -609,12 +329,6 @@ export const MOCK_DATA = {
       zipcode: "85455",
       phone: "722-342-4675",
       status: "inactive",
-      errors: {
-        email: {
-          message: "Invalid email format",
-          severity: "critical",
-        },
-      },
     },
     {
       id: 34,
@@ -625,16 +339,6 @@ export const MOCK_DATA = {
       zipcode: "40976",
       phone: "274-601-4096",
       status: "active",
-      errors: {
-        street: {
-          message: "Street address is missing",
-          severity: "warning",
-        },
-        phone: {
-          message: "Invalid phone format",
-          severity: "critical",
-        },
-      },
     },
     {
       id: 35,
@@ -645,12 +349,6 @@ export const MOCK_DATA = {
       zipcode: "",
       phone: "174-296-3429",
       status: "inactive",
-      errors: {
-        phone: {
-          message: "Invalid phone format",
-          severity: "critical",
-        },
-      },
     },
     {
       id: 36,
@@ -661,20 +359,6 @@ export const MOCK_DATA = {
       zipcode: "18367",
       phone: "309-905-2105",
       status: "inactive",
-      errors: {
-        zipcode: {
-          message: "Zipcode is missing",
-          severity: "warning",
-        },
-        email: {
-          message: "Invalid email format",
-          severity: "warning",
-        },
-        street: {
-          message: "Street address is missing",
-          severity: "warning",
-        },
-      },
     },
     {
       id: 37,
@@ -685,20 +369,6 @@ export const MOCK_DATA = {
       zipcode: "",
       phone: "318-402-2638",
       status: "active",
-      errors: {
-        email: {
-          message: "Invalid email format",
-          severity: "warning",
-        },
-        street: {
-          message: "Street address is missing",
-          severity: "warning",
-        },
-        zipcode: {
-          message: "Invalid zipcode",
-          severity: "critical",
-        },
-      },
     },
     {
       id: 38,
@@ -709,20 +379,6 @@ export const MOCK_DATA = {
       zipcode: "80845",
       phone: "730-989-2754",
       status: "pending",
-      errors: {
-        street: {
-          message: "Street address is missing",
-          severity: "warning",
-        },
-        email: {
-          message: "Invalid email format",
-          severity: "warning",
-        },
-        phone: {
-          message: "Invalid phone format",
-          severity: "critical",
-        },
-      },
     },
     {
       id: 39,
@@ -733,20 +389,6 @@ export const MOCK_DATA = {
       zipcode: "",
       phone: "263-891-8526",
       status: "pending",
-      errors: {
-        zipcode: {
-          message: "Zipcode is missing",
-          severity: "warning",
-        },
-        email: {
-          message: "Invalid email format",
-          severity: "critical",
-        },
-        phone: {
-          message: "Invalid phone format",
-          severity: "critical",
-        },
-      },
     },
     {
       id: 40,
@@ -757,16 +399,6 @@ export const MOCK_DATA = {
       zipcode: "",
       phone: "719-444-2755",
       status: "inactive",
-      errors: {
-        zipcode: {
-          message: "Invalid zipcode",
-          severity: "warning",
-        },
-        phone: {
-          message: "Invalid phone format",
-          severity: "critical",
-        },
-      },
     },
     {
       id: 41,
@@ -777,12 +409,6 @@ export const MOCK_DATA = {
       zipcode: "23560",
       phone: "672-552-2097",
       status: "active",
-      errors: {
-        email: {
-          message: "Invalid email format",
-          severity: "warning",
-        },
-      },
     },
     {
       id: 42,
@@ -793,12 +419,6 @@ export const MOCK_DATA = {
       zipcode: "40037",
       phone: "223-197-4752",
       status: "active",
-      errors: {
-        zipcode: {
-          message: "Invalid zipcode",
-          severity: "warning",
-        },
-      },
     },
     {
       id: 43,
@@ -809,12 +429,6 @@ export const MOCK_DATA = {
       zipcode: "79777",
       phone: "385-861-2634",
       status: "inactive",
-      errors: {
-        email: {
-          message: "Invalid email format",
-          severity: "critical",
-        },
-      },
     },
     {
       id: 44,
@@ -825,12 +439,6 @@ export const MOCK_DATA = {
       zipcode: "68177",
       phone: "190-672-5649",
       status: "inactive",
-      errors: {
-        zipcode: {
-          message: "Invalid zipcode",
-          severity: "warning",
-        },
-      },
     },
     {
       id: 45,
@@ -841,12 +449,6 @@ export const MOCK_DATA = {
       zipcode: "85280",
       phone: "410-632-8315",
       status: "pending",
-      errors: {
-        street: {
-          message: "Street address is missing",
-          severity: "warning",
-        },
-      },
     },
     {
       id: 46,
@@ -857,20 +459,6 @@ export const MOCK_DATA = {
       zipcode: "",
       phone: "526-708-5090",
       status: "pending",
-      errors: {
-        zipcode: {
-          message: "Zipcode is missing",
-          severity: "critical",
-        },
-        street: {
-          message: "Street address is missing",
-          severity: "warning",
-        },
-        email: {
-          message: "Invalid email format",
-          severity: "warning",
-        },
-      },
     },
     {
       id: 47,
@@ -881,12 +469,6 @@ export const MOCK_DATA = {
       zipcode: "61768",
       phone: "553-333-4027",
       status: "pending",
-      errors: {
-        zipcode: {
-          message: "Invalid zipcode",
-          severity: "critical",
-        },
-      },
     },
     {
       id: 48,
@@ -897,16 +479,6 @@ export const MOCK_DATA = {
       zipcode: "",
       phone: "604-282-9650",
       status: "inactive",
-      errors: {
-        street: {
-          message: "Street address is missing",
-          severity: "warning",
-        },
-        phone: {
-          message: "Invalid phone format",
-          severity: "critical",
-        },
-      },
     },
     {
       id: 49,
@@ -917,20 +489,6 @@ export const MOCK_DATA = {
       zipcode: "",
       phone: "566-466-7041",
       status: "inactive",
-      errors: {
-        street: {
-          message: "Street address is missing",
-          severity: "warning",
-        },
-        email: {
-          message: "Invalid email format",
-          severity: "critical",
-        },
-        zipcode: {
-          message: "Invalid zipcode",
-          severity: "critical",
-        },
-      },
     },
     {
       id: 50,
@@ -941,16 +499,6 @@ export const MOCK_DATA = {
       zipcode: "50109",
       phone: "868-228-7626",
       status: "inactive",
-      errors: {
-        zipcode: {
-          message: "Invalid zipcode",
-          severity: "warning",
-        },
-        phone: {
-          message: "Invalid phone format",
-          severity: "critical",
-        },
-      },
     },
     {
       id: 51,
@@ -961,12 +509,6 @@ export const MOCK_DATA = {
       zipcode: "25591",
       phone: "151-806-4538",
       status: "active",
-      errors: {
-        email: {
-          message: "Invalid email format",
-          severity: "critical",
-        },
-      },
     },
     {
       id: 52,
@@ -977,12 +519,6 @@ export const MOCK_DATA = {
       zipcode: "32942",
       phone: "219-564-4133",
       status: "active",
-      errors: {
-        email: {
-          message: "Invalid email format",
-          severity: "warning",
-        },
-      },
     },
     {
       id: 53,
@@ -993,20 +529,6 @@ export const MOCK_DATA = {
       zipcode: "83402",
       phone: "149-952-1172",
       status: "active",
-      errors: {
-        street: {
-          message: "Street address is missing",
-          severity: "warning",
-        },
-        zipcode: {
-          message: "Invalid zipcode",
-          severity: "critical",
-        },
-        email: {
-          message: "Invalid email format",
-          severity: "critical",
-        },
-      },
     },
     {
       id: 54,
@@ -1017,12 +539,6 @@ export const MOCK_DATA = {
       zipcode: "16604",
       phone: "",
       status: "pending",
-      errors: {
-        zipcode: {
-          message: "Invalid zipcode",
-          severity: "critical",
-        },
-      },
     },
     {
       id: 55,
@@ -1033,20 +549,6 @@ export const MOCK_DATA = {
       zipcode: "",
       phone: "",
       status: "inactive",
-      errors: {
-        street: {
-          message: "Street address is missing",
-          severity: "warning",
-        },
-        email: {
-          message: "Invalid email format",
-          severity: "warning",
-        },
-        phone: {
-          message: "Invalid phone format",
-          severity: "critical",
-        },
-      },
     },
     {
       id: 56,
@@ -1057,16 +559,6 @@ export const MOCK_DATA = {
       zipcode: "",
       phone: "737-150-6406",
       status: "active",
-      errors: {
-        street: {
-          message: "Street address is missing",
-          severity: "warning",
-        },
-        phone: {
-          message: "Invalid phone format",
-          severity: "critical",
-        },
-      },
     },
     {
       id: 57,
@@ -1077,20 +569,6 @@ export const MOCK_DATA = {
       zipcode: "59614",
       phone: "693-164-2693",
       status: "pending",
-      errors: {
-        zipcode: {
-          message: "Zipcode is missing",
-          severity: "warning",
-        },
-        email: {
-          message: "Invalid email format",
-          severity: "critical",
-        },
-        phone: {
-          message: "Invalid phone format",
-          severity: "critical",
-        },
-      },
     },
     {
       id: 58,
@@ -1101,20 +579,6 @@ export const MOCK_DATA = {
       zipcode: "95781",
       phone: "847-706-8059",
       status: "active",
-      errors: {
-        email: {
-          message: "Invalid email format",
-          severity: "warning",
-        },
-        street: {
-          message: "Street address is missing",
-          severity: "warning",
-        },
-        phone: {
-          message: "Invalid phone format",
-          severity: "critical",
-        },
-      },
     },
     {
       id: 59,
@@ -1125,16 +589,6 @@ export const MOCK_DATA = {
       zipcode: "",
       phone: "315-793-6749",
       status: "active",
-      errors: {
-        zipcode: {
-          message: "Zipcode is missing",
-          severity: "critical",
-        },
-        email: {
-          message: "Invalid email format",
-          severity: "critical",
-        },
-      },
     },
     {
       id: 60,
@@ -1145,12 +599,6 @@ export const MOCK_DATA = {
       zipcode: "11541",
       phone: "533-868-1486",
       status: "active",
-      errors: {
-        zipcode: {
-          message: "Invalid zipcode",
-          severity: "critical",
-        },
-      },
     },
     {
       id: 61,
@@ -1161,20 +609,6 @@ export const MOCK_DATA = {
       zipcode: "47678",
       phone: "405-283-8628",
       status: "pending",
-      errors: {
-        street: {
-          message: "Street address is missing",
-          severity: "warning",
-        },
-        email: {
-          message: "Invalid email format",
-          severity: "warning",
-        },
-        phone: {
-          message: "Invalid phone format",
-          severity: "critical",
-        },
-      },
     },
     {
       id: 62,
@@ -1185,12 +619,6 @@ export const MOCK_DATA = {
       zipcode: "91194",
       phone: "859-825-5385",
       status: "active",
-      errors: {
-        zipcode: {
-          message: "Invalid zipcode",
-          severity: "critical",
-        },
-      },
     },
     {
       id: 63,
@@ -1201,20 +629,6 @@ export const MOCK_DATA = {
       zipcode: "67631",
       phone: "907-645-6795",
       status: "active",
-      errors: {
-        phone: {
-          message: "Invalid phone format",
-          severity: "critical",
-        },
-        email: {
-          message: "Invalid email format",
-          severity: "warning",
-        },
-        zipcode: {
-          message: "Invalid zipcode",
-          severity: "critical",
-        },
-      },
     },
     {
       id: 64,
@@ -1225,20 +639,6 @@ export const MOCK_DATA = {
       zipcode: "93363",
       phone: "143-549-5985",
       status: "pending",
-      errors: {
-        phone: {
-          message: "Invalid phone format",
-          severity: "critical",
-        },
-        street: {
-          message: "Street address is missing",
-          severity: "warning",
-        },
-        email: {
-          message: "Invalid email format",
-          severity: "critical",
-        },
-      },
     },
     {
       id: 65,
@@ -1249,20 +649,6 @@ export const MOCK_DATA = {
       zipcode: "17640",
       phone: "650-634-3741",
       status: "active",
-      errors: {
-        zipcode: {
-          message: "Invalid zipcode",
-          severity: "critical",
-        },
-        phone: {
-          message: "Invalid phone format",
-          severity: "critical",
-        },
-        street: {
-          message: "Street address is missing",
-          severity: "warning",
-        },
-      },
     },
     {
       id: 66,
@@ -1273,12 +659,6 @@ export const MOCK_DATA = {
       zipcode: "27236",
       phone: "575-795-8154",
       status: "inactive",
-      errors: {
-        phone: {
-          message: "Invalid phone format",
-          severity: "critical",
-        },
-      },
     },
     {
       id: 67,
@@ -1289,20 +669,6 @@ export const MOCK_DATA = {
       zipcode: "32797",
       phone: "485-843-1772",
       status: "active",
-      errors: {
-        street: {
-          message: "Street address is missing",
-          severity: "warning",
-        },
-        email: {
-          message: "Invalid email format",
-          severity: "warning",
-        },
-        phone: {
-          message: "Invalid phone format",
-          severity: "critical",
-        },
-      },
     },
     {
       id: 68,
@@ -1313,16 +679,6 @@ export const MOCK_DATA = {
       zipcode: "",
       phone: "553-642-1239",
       status: "pending",
-      errors: {
-        street: {
-          message: "Street address is missing",
-          severity: "warning",
-        },
-        zipcode: {
-          message: "Zipcode is missing",
-          severity: "critical",
-        },
-      },
     },
     {
       id: 69,
@@ -1333,16 +689,6 @@ export const MOCK_DATA = {
       zipcode: "83843",
       phone: "345-710-9016",
       status: "pending",
-      errors: {
-        phone: {
-          message: "Invalid phone format",
-          severity: "critical",
-        },
-        street: {
-          message: "Street address is missing",
-          severity: "warning",
-        },
-      },
     },
     {
       id: 70,
@@ -1353,20 +699,6 @@ export const MOCK_DATA = {
       zipcode: "",
       phone: "780-196-8611",
       status: "inactive",
-      errors: {
-        email: {
-          message: "Invalid email format",
-          severity: "warning",
-        },
-        zipcode: {
-          message: "Zipcode is missing",
-          severity: "warning",
-        },
-        phone: {
-          message: "Invalid phone format",
-          severity: "critical",
-        },
-      },
     },
     {
       id: 71,
@@ -1377,20 +709,6 @@ export const MOCK_DATA = {
       zipcode: "95869",
       phone: "341-673-5015",
       status: "active",
-      errors: {
-        zipcode: {
-          message: "Invalid zipcode",
-          severity: "critical",
-        },
-        street: {
-          message: "Street address is missing",
-          severity: "warning",
-        },
-        phone: {
-          message: "Invalid phone format",
-          severity: "critical",
-        },
-      },
     },
     {
       id: 72,
@@ -1401,12 +719,6 @@ export const MOCK_DATA = {
       zipcode: "59528",
       phone: "502-921-7229",
       status: "inactive",
-      errors: {
-        street: {
-          message: "Street address is missing",
-          severity: "warning",
-        },
-      },
     },
     {
       id: 73,
@@ -1417,20 +729,6 @@ export const MOCK_DATA = {
       zipcode: "",
       phone: "442-101-1661",
       status: "active",
-      errors: {
-        email: {
-          message: "Invalid email format",
-          severity: "warning",
-        },
-        zipcode: {
-          message: "Invalid zipcode",
-          severity: "critical",
-        },
-        phone: {
-          message: "Invalid phone format",
-          severity: "critical",
-        },
-      },
     },
     {
       id: 74,
@@ -1441,16 +739,6 @@ export const MOCK_DATA = {
       zipcode: "54435",
       phone: "369-330-7465",
       status: "pending",
-      errors: {
-        phone: {
-          message: "Invalid phone format",
-          severity: "critical",
-        },
-        email: {
-          message: "Invalid email format",
-          severity: "critical",
-        },
-      },
     },
     {
       id: 75,
@@ -1461,20 +749,6 @@ export const MOCK_DATA = {
       zipcode: "63442",
       phone: "489-727-1366",
       status: "inactive",
-      errors: {
-        zipcode: {
-          message: "Invalid zipcode",
-          severity: "critical",
-        },
-        street: {
-          message: "Street address is missing",
-          severity: "warning",
-        },
-        email: {
-          message: "Invalid email format",
-          severity: "critical",
-        },
-      },
     },
     {
       id: 76,
@@ -1485,16 +759,6 @@ export const MOCK_DATA = {
       zipcode: "44908",
       phone: "491-533-3595",
       status: "active",
-      errors: {
-        zipcode: {
-          message: "Zipcode is missing",
-          severity: "critical",
-        },
-        phone: {
-          message: "Invalid phone format",
-          severity: "critical",
-        },
-      },
     },
     {
       id: 77,
@@ -1505,16 +769,6 @@ export const MOCK_DATA = {
       zipcode: "",
       phone: "113-401-4874",
       status: "pending",
-      errors: {
-        zipcode: {
-          message: "Invalid zipcode",
-          severity: "warning",
-        },
-        phone: {
-          message: "Invalid phone format",
-          severity: "critical",
-        },
-      },
     },
     {
       id: 78,
@@ -1525,20 +779,6 @@ export const MOCK_DATA = {
       zipcode: "81362",
       phone: "380-354-6730",
       status: "pending",
-      errors: {
-        street: {
-          message: "Street address is missing",
-          severity: "warning",
-        },
-        email: {
-          message: "Invalid email format",
-          severity: "critical",
-        },
-        phone: {
-          message: "Invalid phone format",
-          severity: "critical",
-        },
-      },
     },
     {
       id: 79,
@@ -1549,16 +789,6 @@ export const MOCK_DATA = {
       zipcode: "96042",
       phone: "987-802-2603",
       status: "active",
-      errors: {
-        phone: {
-          message: "Invalid phone format",
-          severity: "critical",
-        },
-        zipcode: {
-          message: "Invalid zipcode",
-          severity: "critical",
-        },
-      },
     },
     {
       id: 80,
@@ -1569,16 +799,6 @@ export const MOCK_DATA = {
       zipcode: "58564",
       phone: "",
       status: "inactive",
-      errors: {
-        phone: {
-          message: "Invalid phone format",
-          severity: "critical",
-        },
-        zipcode: {
-          message: "Invalid zipcode",
-          severity: "warning",
-        },
-      },
     },
     {
       id: 81,
@@ -1589,16 +809,6 @@ export const MOCK_DATA = {
       zipcode: "",
       phone: "338-838-6333",
       status: "inactive",
-      errors: {
-        zipcode: {
-          message: "Zipcode is missing",
-          severity: "warning",
-        },
-        phone: {
-          message: "Invalid phone format",
-          severity: "critical",
-        },
-      },
     },
     {
       id: 82,
@@ -1609,20 +819,6 @@ export const MOCK_DATA = {
       zipcode: "73965",
       phone: "274-885-8424",
       status: "active",
-      errors: {
-        email: {
-          message: "Invalid email format",
-          severity: "warning",
-        },
-        street: {
-          message: "Street address is missing",
-          severity: "warning",
-        },
-        phone: {
-          message: "Invalid phone format",
-          severity: "critical",
-        },
-      },
     },
     {
       id: 83,
@@ -1633,20 +829,6 @@ export const MOCK_DATA = {
       zipcode: "17073",
       phone: "430-248-1743",
       status: "pending",
-      errors: {
-        phone: {
-          message: "Invalid phone format",
-          severity: "critical",
-        },
-        street: {
-          message: "Street address is missing",
-          severity: "warning",
-        },
-        email: {
-          message: "Invalid email format",
-          severity: "warning",
-        },
-      },
     },
     {
       id: 84,
@@ -1657,20 +839,6 @@ export const MOCK_DATA = {
       zipcode: "64285",
       phone: "121-524-6129",
       status: "inactive",
-      errors: {
-        phone: {
-          message: "Invalid phone format",
-          severity: "critical",
-        },
-        street: {
-          message: "Street address is missing",
-          severity: "warning",
-        },
-        zipcode: {
-          message: "Zipcode is missing",
-          severity: "critical",
-        },
-      },
     },
     {
       id: 85,
@@ -1681,12 +849,6 @@ export const MOCK_DATA = {
       zipcode: "",
       phone: "322-570-7906",
       status: "active",
-      errors: {
-        email: {
-          message: "Invalid email format",
-          severity: "critical",
-        },
-      },
     },
     {
       id: 86,
@@ -1697,20 +859,6 @@ export const MOCK_DATA = {
       zipcode: "",
       phone: "",
       status: "pending",
-      errors: {
-        street: {
-          message: "Street address is missing",
-          severity: "warning",
-        },
-        phone: {
-          message: "Invalid phone format",
-          severity: "critical",
-        },
-        zipcode: {
-          message: "Zipcode is missing",
-          severity: "warning",
-        },
-      },
     },
     {
       id: 87,
@@ -1721,16 +869,6 @@ export const MOCK_DATA = {
       zipcode: "47315",
       phone: "453-187-2351",
       status: "inactive",
-      errors: {
-        email: {
-          message: "Invalid email format",
-          severity: "critical",
-        },
-        zipcode: {
-          message: "Invalid zipcode",
-          severity: "critical",
-        },
-      },
     },
     {
       id: 88,
@@ -1741,20 +879,6 @@ export const MOCK_DATA = {
       zipcode: "74582",
       phone: "857-358-2239",
       status: "active",
-      errors: {
-        phone: {
-          message: "Invalid phone format",
-          severity: "critical",
-        },
-        zipcode: {
-          message: "Zipcode is missing",
-          severity: "warning",
-        },
-        email: {
-          message: "Invalid email format",
-          severity: "warning",
-        },
-      },
     },
     {
       id: 89,
@@ -1765,16 +889,6 @@ export const MOCK_DATA = {
       zipcode: "",
       phone: "237-606-8727",
       status: "inactive",
-      errors: {
-        email: {
-          message: "Invalid email format",
-          severity: "warning",
-        },
-        phone: {
-          message: "Invalid phone format",
-          severity: "critical",
-        },
-      },
     },
     {
       id: 90,
@@ -1785,12 +899,6 @@ export const MOCK_DATA = {
       zipcode: "66501",
       phone: "468-828-1000",
       status: "active",
-      errors: {
-        street: {
-          message: "Street address is missing",
-          severity: "warning",
-        },
-      },
     },
     {
       id: 91,
@@ -1801,20 +909,6 @@ export const MOCK_DATA = {
       zipcode: "76461",
       phone: "341-481-9408",
       status: "pending",
-      errors: {
-        email: {
-          message: "Invalid email format",
-          severity: "warning",
-        },
-        phone: {
-          message: "Invalid phone format",
-          severity: "critical",
-        },
-        zipcode: {
-          message: "Zipcode is missing",
-          severity: "critical",
-        },
-      },
     },
     {
       id: 92,
@@ -1825,12 +919,6 @@ export const MOCK_DATA = {
       zipcode: "67394",
       phone: "215-649-1227",
       status: "inactive",
-      errors: {
-        zipcode: {
-          message: "Invalid zipcode",
-          severity: "critical",
-        },
-      },
     },
     {
       id: 93,
@@ -1841,16 +929,6 @@ export const MOCK_DATA = {
       zipcode: "",
       phone: "941-310-3446",
       status: "active",
-      errors: {
-        email: {
-          message: "Invalid email format",
-          severity: "critical",
-        },
-        street: {
-          message: "Street address is missing",
-          severity: "warning",
-        },
-      },
     },
     {
       id: 94,
@@ -1861,12 +939,6 @@ export const MOCK_DATA = {
       zipcode: "82784",
       phone: "484-578-7702",
       status: "pending",
-      errors: {
-        zipcode: {
-          message: "Invalid zipcode",
-          severity: "warning",
-        },
-      },
     },
     {
       id: 95,
@@ -1877,20 +949,6 @@ export const MOCK_DATA = {
       zipcode: "40949",
       phone: "",
       status: "active",
-      errors: {
-        phone: {
-          message: "Invalid phone format",
-          severity: "critical",
-        },
-        street: {
-          message: "Street address is missing",
-          severity: "warning",
-        },
-        email: {
-          message: "Invalid email format",
-          severity: "critical",
-        },
-      },
     },
     {
       id: 96,
@@ -1901,20 +959,6 @@ export const MOCK_DATA = {
       zipcode: "30862",
       phone: "943-432-5448",
       status: "inactive",
-      errors: {
-        email: {
-          message: "Invalid email format",
-          severity: "warning",
-        },
-        zipcode: {
-          message: "Zipcode is missing",
-          severity: "critical",
-        },
-        street: {
-          message: "Street address is missing",
-          severity: "warning",
-        },
-      },
     },
     {
       id: 97,
@@ -1925,16 +969,6 @@ export const MOCK_DATA = {
       zipcode: "74882",
       phone: "255-358-7928",
       status: "pending",
-      errors: {
-        phone: {
-          message: "Invalid phone format",
-          severity: "critical",
-        },
-        street: {
-          message: "Street address is missing",
-          severity: "warning",
-        },
-      },
     },
     {
       id: 98,
@@ -1945,16 +979,6 @@ export const MOCK_DATA = {
       zipcode: "88582",
       phone: "588-967-6375",
       status: "active",
-      errors: {
-        email: {
-          message: "Invalid email format",
-          severity: "warning",
-        },
-        phone: {
-          message: "Invalid phone format",
-          severity: "critical",
-        },
-      },
     },
     {
       id: 99,
@@ -1965,12 +989,6 @@ export const MOCK_DATA = {
       zipcode: "79324",
       phone: "452-155-8823",
       status: "pending",
-      errors: {
-        email: {
-          message: "Invalid email format",
-          severity: "warning",
-        },
-      },
     },
     {
       id: 100,
@@ -1981,16 +999,6 @@ export const MOCK_DATA = {
       zipcode: "30396",
       phone: "201-770-8632",
       status: "active",
-      errors: {
-        email: {
-          message: "Invalid email format",
-          severity: "warning",
-        },
-        street: {
-          message: "Street address is missing",
-          severity: "warning",
-        },
-      },
     },
     {
       id: 101,
@@ -2001,16 +1009,6 @@ export const MOCK_DATA = {
       zipcode: "57033",
       phone: "184-374-5770",
       status: "active",
-      errors: {
-        zipcode: {
-          message: "Invalid zipcode",
-          severity: "critical",
-        },
-        phone: {
-          message: "Invalid phone format",
-          severity: "critical",
-        },
-      },
     },
     {
       id: 102,
@@ -2021,12 +1019,6 @@ export const MOCK_DATA = {
       zipcode: "48966",
       phone: "637-151-1149",
       status: "pending",
-      errors: {
-        email: {
-          message: "Invalid email format",
-          severity: "critical",
-        },
-      },
     },
     {
       id: 103,
@@ -2037,12 +1029,6 @@ export const MOCK_DATA = {
       zipcode: "",
       phone: "827-865-4276",
       status: "inactive",
-      errors: {
-        zipcode: {
-          message: "Invalid zipcode",
-          severity: "warning",
-        },
-      },
     },
     {
       id: 104,
@@ -2053,20 +1039,6 @@ export const MOCK_DATA = {
       zipcode: "44223",
       phone: "599-585-3537",
       status: "pending",
-      errors: {
-        street: {
-          message: "Street address is missing",
-          severity: "warning",
-        },
-        zipcode: {
-          message: "Invalid zipcode",
-          severity: "warning",
-        },
-        email: {
-          message: "Invalid email format",
-          severity: "warning",
-        },
-      },
     },
     {
       id: 105,
@@ -2077,20 +1049,6 @@ export const MOCK_DATA = {
       zipcode: "11783",
       phone: "267-568-7018",
       status: "active",
-      errors: {
-        zipcode: {
-          message: "Invalid zipcode",
-          severity: "warning",
-        },
-        street: {
-          message: "Street address is missing",
-          severity: "warning",
-        },
-        phone: {
-          message: "Invalid phone format",
-          severity: "critical",
-        },
-      },
     },
     {
       id: 106,
@@ -2101,16 +1059,6 @@ export const MOCK_DATA = {
       zipcode: "48665",
       phone: "860-284-1562",
       status: "inactive",
-      errors: {
-        email: {
-          message: "Invalid email format",
-          severity: "warning",
-        },
-        zipcode: {
-          message: "Invalid zipcode",
-          severity: "warning",
-        },
-      },
     },
     {
       id: 107,
@@ -2121,20 +1069,6 @@ export const MOCK_DATA = {
       zipcode: "46445",
       phone: "278-123-9595",
       status: "inactive",
-      errors: {
-        phone: {
-          message: "Invalid phone format",
-          severity: "critical",
-        },
-        zipcode: {
-          message: "Zipcode is missing",
-          severity: "warning",
-        },
-        email: {
-          message: "Invalid email format",
-          severity: "critical",
-        },
-      },
     },
     {
       id: 108,
@@ -2145,12 +1079,6 @@ export const MOCK_DATA = {
       zipcode: "63927",
       phone: "",
       status: "pending",
-      errors: {
-        zipcode: {
-          message: "Zipcode is missing",
-          severity: "warning",
-        },
-      },
     },
     {
       id: 109,
@@ -2161,20 +1089,6 @@ export const MOCK_DATA = {
       zipcode: "51196",
       phone: "989-375-9410",
       status: "pending",
-      errors: {
-        phone: {
-          message: "Invalid phone format",
-          severity: "critical",
-        },
-        zipcode: {
-          message: "Zipcode is missing",
-          severity: "warning",
-        },
-        street: {
-          message: "Street address is missing",
-          severity: "warning",
-        },
-      },
     },
     {
       id: 110,
@@ -2185,16 +1099,6 @@ export const MOCK_DATA = {
       zipcode: "39272",
       phone: "777-503-7541",
       status: "pending",
-      errors: {
-        email: {
-          message: "Invalid email format",
-          severity: "critical",
-        },
-        zipcode: {
-          message: "Zipcode is missing",
-          severity: "critical",
-        },
-      },
     },
     {
       id: 111,
@@ -2205,20 +1109,6 @@ export const MOCK_DATA = {
       zipcode: "",
       phone: "505-390-4934",
       status: "active",
-      errors: {
-        street: {
-          message: "Street address is missing",
-          severity: "warning",
-        },
-        email: {
-          message: "Invalid email format",
-          severity: "warning",
-        },
-        phone: {
-          message: "Invalid phone format",
-          severity: "critical",
-        },
-      },
     },
     {
       id: 112,
@@ -2229,20 +1119,6 @@ export const MOCK_DATA = {
       zipcode: "",
       phone: "957-450-6373",
       status: "inactive",
-      errors: {
-        street: {
-          message: "Street address is missing",
-          severity: "warning",
-        },
-        zipcode: {
-          message: "Zipcode is missing",
-          severity: "warning",
-        },
-        email: {
-          message: "Invalid email format",
-          severity: "warning",
-        },
-      },
     },
     {
       id: 113,
@@ -2253,16 +1129,6 @@ export const MOCK_DATA = {
       zipcode: "19677",
       phone: "",
       status: "active",
-      errors: {
-        street: {
-          message: "Street address is missing",
-          severity: "warning",
-        },
-        zipcode: {
-          message: "Zipcode is missing",
-          severity: "critical",
-        },
-      },
     },
     {
       id: 114,
@@ -2273,12 +1139,6 @@ export const MOCK_DATA = {
       zipcode: "46428",
       phone: "253-530-6023",
       status: "active",
-      errors: {
-        street: {
-          message: "Street address is missing",
-          severity: "warning",
-        },
-      },
     },
     {
       id: 115,
@@ -2289,12 +1149,6 @@ export const MOCK_DATA = {
       zipcode: "64490",
       phone: "540-357-5015",
       status: "inactive",
-      errors: {
-        street: {
-          message: "Street address is missing",
-          severity: "warning",
-        },
-      },
     },
     {
       id: 116,
@@ -2305,12 +1159,6 @@ export const MOCK_DATA = {
       zipcode: "17353",
       phone: "519-546-7118",
       status: "inactive",
-      errors: {
-        zipcode: {
-          message: "Invalid zipcode",
-          severity: "critical",
-        },
-      },
     },
     {
       id: 117,
@@ -2321,12 +1169,6 @@ export const MOCK_DATA = {
       zipcode: "41152",
       phone: "540-991-9595",
       status: "inactive",
-      errors: {
-        email: {
-          message: "Invalid email format",
-          severity: "critical",
-        },
-      },
     },
     {
       id: 118,
@@ -2337,16 +1179,6 @@ export const MOCK_DATA = {
       zipcode: "",
       phone: "",
       status: "pending",
-      errors: {
-        phone: {
-          message: "Invalid phone format",
-          severity: "critical",
-        },
-        street: {
-          message: "Street address is missing",
-          severity: "warning",
-        },
-      },
     },
     {
       id: 119,
@@ -2357,16 +1189,6 @@ export const MOCK_DATA = {
       zipcode: "23327",
       phone: "312-389-7760",
       status: "inactive",
-      errors: {
-        zipcode: {
-          message: "Zipcode is missing",
-          severity: "critical",
-        },
-        phone: {
-          message: "Invalid phone format",
-          severity: "critical",
-        },
-      },
     },
     {
       id: 120,
@@ -2377,20 +1199,6 @@ export const MOCK_DATA = {
       zipcode: "24417",
       phone: "626-390-6532",
       status: "inactive",
-      errors: {
-        phone: {
-          message: "Invalid phone format",
-          severity: "critical",
-        },
-        email: {
-          message: "Invalid email format",
-          severity: "critical",
-        },
-        zipcode: {
-          message: "Invalid zipcode",
-          severity: "warning",
-        },
-      },
     },
     {
       id: 121,
@@ -2401,16 +1209,6 @@ export const MOCK_DATA = {
       zipcode: "47812",
       phone: "911-285-9632",
       status: "pending",
-      errors: {
-        phone: {
-          message: "Invalid phone format",
-          severity: "critical",
-        },
-        email: {
-          message: "Invalid email format",
-          severity: "warning",
-        },
-      },
     },
     {
       id: 122,
@@ -2421,20 +1219,6 @@ export const MOCK_DATA = {
       zipcode: "42569",
       phone: "942-534-1506",
       status: "inactive",
-      errors: {
-        email: {
-          message: "Invalid email format",
-          severity: "critical",
-        },
-        street: {
-          message: "Street address is missing",
-          severity: "warning",
-        },
-        zipcode: {
-          message: "Invalid zipcode",
-          severity: "warning",
-        },
-      },
     },
     {
       id: 123,
@@ -2445,20 +1229,6 @@ export const MOCK_DATA = {
       zipcode: "77539",
       phone: "933-643-3776",
       status: "active",
-      errors: {
-        zipcode: {
-          message: "Invalid zipcode",
-          severity: "critical",
-        },
-        phone: {
-          message: "Invalid phone format",
-          severity: "critical",
-        },
-        email: {
-          message: "Invalid email format",
-          severity: "critical",
-        },
-      },
     },
     {
       id: 124,
@@ -2469,20 +1239,6 @@ export const MOCK_DATA = {
       zipcode: "45174",
       phone: "597-944-6432",
       status: "active",
-      errors: {
-        zipcode: {
-          message: "Invalid zipcode",
-          severity: "warning",
-        },
-        email: {
-          message: "Invalid email format",
-          severity: "critical",
-        },
-        street: {
-          message: "Street address is missing",
-          severity: "warning",
-        },
-      },
     },
     {
       id: 125,
@@ -2493,16 +1249,6 @@ export const MOCK_DATA = {
       zipcode: "55334",
       phone: "517-926-6921",
       status: "pending",
-      errors: {
-        zipcode: {
-          message: "Invalid zipcode",
-          severity: "critical",
-        },
-        phone: {
-          message: "Invalid phone format",
-          severity: "critical",
-        },
-      },
     },
     {
       id: 126,
@@ -2513,20 +1259,6 @@ export const MOCK_DATA = {
       zipcode: "77468",
       phone: "",
       status: "active",
-      errors: {
-        email: {
-          message: "Invalid email format",
-          severity: "critical",
-        },
-        street: {
-          message: "Street address is missing",
-          severity: "warning",
-        },
-        phone: {
-          message: "Invalid phone format",
-          severity: "critical",
-        },
-      },
     },
     {
       id: 127,
@@ -2537,20 +1269,6 @@ export const MOCK_DATA = {
       zipcode: "44213",
       phone: "577-866-3821",
       status: "pending",
-      errors: {
-        phone: {
-          message: "Invalid phone format",
-          severity: "critical",
-        },
-        email: {
-          message: "Invalid email format",
-          severity: "warning",
-        },
-        street: {
-          message: "Street address is missing",
-          severity: "warning",
-        },
-      },
     },
     {
       id: 128,
@@ -2561,20 +1279,6 @@ export const MOCK_DATA = {
       zipcode: "59541",
       phone: "455-137-9959",
       status: "active",
-      errors: {
-        phone: {
-          message: "Invalid phone format",
-          severity: "critical",
-        },
-        zipcode: {
-          message: "Invalid zipcode",
-          severity: "critical",
-        },
-        email: {
-          message: "Invalid email format",
-          severity: "warning",
-        },
-      },
     },
     {
       id: 129,
@@ -2585,20 +1289,6 @@ export const MOCK_DATA = {
       zipcode: "87010",
       phone: "930-412-7981",
       status: "pending",
-      errors: {
-        phone: {
-          message: "Invalid phone format",
-          severity: "critical",
-        },
-        zipcode: {
-          message: "Zipcode is missing",
-          severity: "critical",
-        },
-        street: {
-          message: "Street address is missing",
-          severity: "warning",
-        },
-      },
     },
     {
       id: 130,
@@ -2609,12 +1299,6 @@ export const MOCK_DATA = {
       zipcode: "49116",
       phone: "953-994-5016",
       status: "inactive",
-      errors: {
-        phone: {
-          message: "Invalid phone format",
-          severity: "critical",
-        },
-      },
     },
     {
       id: 131,
@@ -2625,16 +1309,6 @@ export const MOCK_DATA = {
       zipcode: "65623",
       phone: "404-919-5101",
       status: "pending",
-      errors: {
-        phone: {
-          message: "Invalid phone format",
-          severity: "critical",
-        },
-        zipcode: {
-          message: "Invalid zipcode",
-          severity: "critical",
-        },
-      },
     },
     {
       id: 132,
@@ -2645,20 +1319,6 @@ export const MOCK_DATA = {
       zipcode: "67395",
       phone: "487-786-2957",
       status: "pending",
-      errors: {
-        street: {
-          message: "Street address is missing",
-          severity: "warning",
-        },
-        zipcode: {
-          message: "Zipcode is missing",
-          severity: "critical",
-        },
-        phone: {
-          message: "Invalid phone format",
-          severity: "critical",
-        },
-      },
     },
     {
       id: 133,
@@ -2669,20 +1329,6 @@ export const MOCK_DATA = {
       zipcode: "99735",
       phone: "975-967-9725",
       status: "inactive",
-      errors: {
-        zipcode: {
-          message: "Invalid zipcode",
-          severity: "warning",
-        },
-        email: {
-          message: "Invalid email format",
-          severity: "critical",
-        },
-        phone: {
-          message: "Invalid phone format",
-          severity: "critical",
-        },
-      },
     },
     {
       id: 134,
@@ -2693,12 +1339,6 @@ export const MOCK_DATA = {
       zipcode: "76803",
       phone: "361-975-1859",
       status: "inactive",
-      errors: {
-        email: {
-          message: "Invalid email format",
-          severity: "critical",
-        },
-      },
     },
     {
       id: 135,
@@ -2709,12 +1349,6 @@ export const MOCK_DATA = {
       zipcode: "88616",
       phone: "",
       status: "pending",
-      errors: {
-        zipcode: {
-          message: "Invalid zipcode",
-          severity: "warning",
-        },
-      },
     },
     {
       id: 136,
@@ -2725,12 +1359,6 @@ export const MOCK_DATA = {
       zipcode: "46967",
       phone: "870-670-3561",
       status: "inactive",
-      errors: {
-        street: {
-          message: "Street address is missing",
-          severity: "warning",
-        },
-      },
     },
     {
       id: 137,
@@ -2741,16 +1369,6 @@ export const MOCK_DATA = {
       zipcode: "",
       phone: "171-998-1628",
       status: "inactive",
-      errors: {
-        zipcode: {
-          message: "Invalid zipcode",
-          severity: "critical",
-        },
-        phone: {
-          message: "Invalid phone format",
-          severity: "critical",
-        },
-      },
     },
     {
       id: 138,
@@ -2761,20 +1379,6 @@ export const MOCK_DATA = {
       zipcode: "65222",
       phone: "191-573-7029",
       status: "pending",
-      errors: {
-        phone: {
-          message: "Invalid phone format",
-          severity: "critical",
-        },
-        email: {
-          message: "Invalid email format",
-          severity: "warning",
-        },
-        street: {
-          message: "Street address is missing",
-          severity: "warning",
-        },
-      },
     },
     {
       id: 139,
@@ -2785,20 +1389,6 @@ export const MOCK_DATA = {
       zipcode: "61115",
       phone: "449-593-5805",
       status: "inactive",
-      errors: {
-        email: {
-          message: "Invalid email format",
-          severity: "warning",
-        },
-        phone: {
-          message: "Invalid phone format",
-          severity: "critical",
-        },
-        zipcode: {
-          message: "Zipcode is missing",
-          severity: "critical",
-        },
-      },
     },
     {
       id: 140,
@@ -2809,16 +1399,6 @@ export const MOCK_DATA = {
       zipcode: "72060",
       phone: "532-585-4980",
       status: "active",
-      errors: {
-        zipcode: {
-          message: "Invalid zipcode",
-          severity: "critical",
-        },
-        street: {
-          message: "Street address is missing",
-          severity: "warning",
-        },
-      },
     },
     {
       id: 141,
@@ -2829,16 +1409,6 @@ export const MOCK_DATA = {
       zipcode: "24094",
       phone: "489-918-1438",
       status: "inactive",
-      errors: {
-        street: {
-          message: "Street address is missing",
-          severity: "warning",
-        },
-        zipcode: {
-          message: "Zipcode is missing",
-          severity: "warning",
-        },
-      },
     },
     {
       id: 142,
@@ -2849,20 +1419,6 @@ export const MOCK_DATA = {
       zipcode: "80358",
       phone: "",
       status: "active",
-      errors: {
-        email: {
-          message: "Invalid email format",
-          severity: "critical",
-        },
-        zipcode: {
-          message: "Invalid zipcode",
-          severity: "critical",
-        },
-        phone: {
-          message: "Invalid phone format",
-          severity: "critical",
-        },
-      },
     },
     {
       id: 143,
@@ -2873,16 +1429,6 @@ export const MOCK_DATA = {
       zipcode: "58815",
       phone: "",
       status: "pending",
-      errors: {
-        zipcode: {
-          message: "Zipcode is missing",
-          severity: "critical",
-        },
-        email: {
-          message: "Invalid email format",
-          severity: "warning",
-        },
-      },
     },
     {
       id: 144,
@@ -2893,16 +1439,6 @@ export const MOCK_DATA = {
       zipcode: "64903",
       phone: "418-636-9438",
       status: "inactive",
-      errors: {
-        phone: {
-          message: "Invalid phone format",
-          severity: "critical",
-        },
-        zipcode: {
-          message: "Invalid zipcode",
-          severity: "critical",
-        },
-      },
     },
     {
       id: 145,
@@ -2913,12 +1449,6 @@ export const MOCK_DATA = {
       zipcode: "75879",
       phone: "216-515-6262",
       status: "pending",
-      errors: {
-        zipcode: {
-          message: "Zipcode is missing",
-          severity: "critical",
-        },
-      },
     },
     {
       id: 146,
@@ -2929,16 +1459,6 @@ export const MOCK_DATA = {
       zipcode: "",
       phone: "366-233-2938",
       status: "pending",
-      errors: {
-        street: {
-          message: "Street address is missing",
-          severity: "warning",
-        },
-        phone: {
-          message: "Invalid phone format",
-          severity: "critical",
-        },
-      },
     },
     {
       id: 147,
@@ -2949,12 +1469,6 @@ export const MOCK_DATA = {
       zipcode: "",
       phone: "799-955-5403",
       status: "active",
-      errors: {
-        street: {
-          message: "Street address is missing",
-          severity: "warning",
-        },
-      },
     },
     {
       id: 148,
@@ -2965,16 +1479,6 @@ export const MOCK_DATA = {
       zipcode: "83830",
       phone: "322-178-9171",
       status: "active",
-      errors: {
-        email: {
-          message: "Invalid email format",
-          severity: "critical",
-        },
-        zipcode: {
-          message: "Zipcode is missing",
-          severity: "warning",
-        },
-      },
     },
     {
       id: 149,
@@ -2985,12 +1489,6 @@ export const MOCK_DATA = {
       zipcode: "17811",
       phone: "958-255-2305",
       status: "pending",
-      errors: {
-        street: {
-          message: "Street address is missing",
-          severity: "warning",
-        },
-      },
     },
     {
       id: 150,
@@ -3001,16 +1499,6 @@ export const MOCK_DATA = {
       zipcode: "",
       phone: "752-392-3950",
       status: "active",
-      errors: {
-        zipcode: {
-          message: "Zipcode is missing",
-          severity: "warning",
-        },
-        email: {
-          message: "Invalid email format",
-          severity: "warning",
-        },
-      },
     },
     {
       id: 151,
@@ -3021,20 +1509,6 @@ export const MOCK_DATA = {
       zipcode: "93022",
       phone: "969-365-9629",
       status: "pending",
-      errors: {
-        street: {
-          message: "Street address is missing",
-          severity: "warning",
-        },
-        phone: {
-          message: "Invalid phone format",
-          severity: "critical",
-        },
-        zipcode: {
-          message: "Zipcode is missing",
-          severity: "warning",
-        },
-      },
     },
     {
       id: 152,
@@ -3045,16 +1519,6 @@ export const MOCK_DATA = {
       zipcode: "95464",
       phone: "876-322-4798",
       status: "active",
-      errors: {
-        zipcode: {
-          message: "Invalid zipcode",
-          severity: "warning",
-        },
-        phone: {
-          message: "Invalid phone format",
-          severity: "critical",
-        },
-      },
     },
     {
       id: 153,
@@ -3065,12 +1529,6 @@ export const MOCK_DATA = {
       zipcode: "",
       phone: "838-277-6745",
       status: "pending",
-      errors: {
-        zipcode: {
-          message: "Invalid zipcode",
-          severity: "critical",
-        },
-      },
     },
     {
       id: 154,
@@ -3081,12 +1539,6 @@ export const MOCK_DATA = {
       zipcode: "83713",
       phone: "183-385-5104",
       status: "active",
-      errors: {
-        zipcode: {
-          message: "Zipcode is missing",
-          severity: "critical",
-        },
-      },
     },
     {
       id: 155,
@@ -3097,20 +1549,6 @@ export const MOCK_DATA = {
       zipcode: "",
       phone: "399-267-1586",
       status: "pending",
-      errors: {
-        phone: {
-          message: "Invalid phone format",
-          severity: "critical",
-        },
-        street: {
-          message: "Street address is missing",
-          severity: "warning",
-        },
-        zipcode: {
-          message: "Zipcode is missing",
-          severity: "critical",
-        },
-      },
     },
     {
       id: 156,
@@ -3121,16 +1559,6 @@ export const MOCK_DATA = {
       zipcode: "81356",
       phone: "182-130-8203",
       status: "inactive",
-      errors: {
-        email: {
-          message: "Invalid email format",
-          severity: "warning",
-        },
-        street: {
-          message: "Street address is missing",
-          severity: "warning",
-        },
-      },
     },
     {
       id: 157,
@@ -3141,12 +1569,6 @@ export const MOCK_DATA = {
       zipcode: "",
       phone: "629-742-1723",
       status: "inactive",
-      errors: {
-        email: {
-          message: "Invalid email format",
-          severity: "critical",
-        },
-      },
     },
     {
       id: 158,
@@ -3157,16 +1579,6 @@ export const MOCK_DATA = {
       zipcode: "89109",
       phone: "626-498-5124",
       status: "pending",
-      errors: {
-        zipcode: {
-          message: "Zipcode is missing",
-          severity: "critical",
-        },
-        email: {
-          message: "Invalid email format",
-          severity: "warning",
-        },
-      },
     },
     {
       id: 159,
@@ -3177,12 +1589,6 @@ export const MOCK_DATA = {
       zipcode: "",
       phone: "942-540-7337",
       status: "inactive",
-      errors: {
-        street: {
-          message: "Street address is missing",
-          severity: "warning",
-        },
-      },
     },
     {
       id: 160,
@@ -3193,20 +1599,6 @@ export const MOCK_DATA = {
       zipcode: "78703",
       phone: "282-487-8316",
       status: "inactive",
-      errors: {
-        email: {
-          message: "Invalid email format",
-          severity: "warning",
-        },
-        zipcode: {
-          message: "Invalid zipcode",
-          severity: "critical",
-        },
-        phone: {
-          message: "Invalid phone format",
-          severity: "critical",
-        },
-      },
     },
     {
       id: 161,
@@ -3217,20 +1609,6 @@ export const MOCK_DATA = {
       zipcode: "82056",
       phone: "548-602-8032",
       status: "inactive",
-      errors: {
-        phone: {
-          message: "Invalid phone format",
-          severity: "critical",
-        },
-        zipcode: {
-          message: "Invalid zipcode",
-          severity: "warning",
-        },
-        email: {
-          message: "Invalid email format",
-          severity: "warning",
-        },
-      },
     },
     {
       id: 162,
@@ -3241,12 +1619,6 @@ export const MOCK_DATA = {
       zipcode: "46956",
       phone: "138-589-9956",
       status: "active",
-      errors: {
-        zipcode: {
-          message: "Invalid zipcode",
-          severity: "warning",
-        },
-      },
     },
     {
       id: 163,
@@ -3257,12 +1629,6 @@ export const MOCK_DATA = {
       zipcode: "34687",
       phone: "711-626-8543",
       status: "active",
-      errors: {
-        email: {
-          message: "Invalid email format",
-          severity: "critical",
-        },
-      },
     },
     {
       id: 164,
@@ -3273,20 +1639,6 @@ export const MOCK_DATA = {
       zipcode: "51855",
       phone: "451-193-7327",
       status: "inactive",
-      errors: {
-        phone: {
-          message: "Invalid phone format",
-          severity: "critical",
-        },
-        street: {
-          message: "Street address is missing",
-          severity: "warning",
-        },
-        zipcode: {
-          message: "Invalid zipcode",
-          severity: "critical",
-        },
-      },
     },
     {
       id: 165,
@@ -3297,16 +1649,6 @@ export const MOCK_DATA = {
       zipcode: "60865",
       phone: "683-295-2127",
       status: "pending",
-      errors: {
-        email: {
-          message: "Invalid email format",
-          severity: "critical",
-        },
-        phone: {
-          message: "Invalid phone format",
-          severity: "critical",
-        },
-      },
     },
     {
       id: 166,
@@ -3317,16 +1659,6 @@ export const MOCK_DATA = {
       zipcode: "33928",
       phone: "318-974-7425",
       status: "active",
-      errors: {
-        street: {
-          message: "Street address is missing",
-          severity: "warning",
-        },
-        email: {
-          message: "Invalid email format",
-          severity: "critical",
-        },
-      },
     },
     {
       id: 167,
@@ -3337,20 +1669,6 @@ export const MOCK_DATA = {
       zipcode: "43673",
       phone: "246-161-5933",
       status: "inactive",
-      errors: {
-        phone: {
-          message: "Invalid phone format",
-          severity: "critical",
-        },
-        email: {
-          message: "Invalid email format",
-          severity: "warning",
-        },
-        street: {
-          message: "Street address is missing",
-          severity: "warning",
-        },
-      },
     },
     {
       id: 168,
@@ -3361,20 +1679,6 @@ export const MOCK_DATA = {
       zipcode: "",
       phone: "164-623-2359",
       status: "inactive",
-      errors: {
-        phone: {
-          message: "Invalid phone format",
-          severity: "critical",
-        },
-        zipcode: {
-          message: "Invalid zipcode",
-          severity: "critical",
-        },
-        street: {
-          message: "Street address is missing",
-          severity: "warning",
-        },
-      },
     },
     {
       id: 169,
@@ -3385,20 +1689,6 @@ export const MOCK_DATA = {
       zipcode: "35864",
       phone: "400-936-7790",
       status: "inactive",
-      errors: {
-        zipcode: {
-          message: "Zipcode is missing",
-          severity: "critical",
-        },
-        email: {
-          message: "Invalid email format",
-          severity: "critical",
-        },
-        street: {
-          message: "Street address is missing",
-          severity: "warning",
-        },
-      },
     },
     {
       id: 170,
@@ -3409,16 +1699,6 @@ export const MOCK_DATA = {
       zipcode: "28560",
       phone: "677-374-3667",
       status: "active",
-      errors: {
-        zipcode: {
-          message: "Zipcode is missing",
-          severity: "critical",
-        },
-        phone: {
-          message: "Invalid phone format",
-          severity: "critical",
-        },
-      },
     },
     {
       id: 171,
@@ -3429,20 +1709,6 @@ export const MOCK_DATA = {
       zipcode: "",
       phone: "460-453-6623",
       status: "active",
-      errors: {
-        zipcode: {
-          message: "Invalid zipcode",
-          severity: "warning",
-        },
-        email: {
-          message: "Invalid email format",
-          severity: "warning",
-        },
-        phone: {
-          message: "Invalid phone format",
-          severity: "critical",
-        },
-      },
     },
     {
       id: 172,
@@ -3453,20 +1719,6 @@ export const MOCK_DATA = {
       zipcode: "",
       phone: "328-389-5982",
       status: "inactive",
-      errors: {
-        street: {
-          message: "Street address is missing",
-          severity: "warning",
-        },
-        phone: {
-          message: "Invalid phone format",
-          severity: "critical",
-        },
-        email: {
-          message: "Invalid email format",
-          severity: "critical",
-        },
-      },
     },
     {
       id: 173,
@@ -3477,20 +1729,6 @@ export const MOCK_DATA = {
       zipcode: "14996",
       phone: "585-144-6564",
       status: "active",
-      errors: {
-        phone: {
-          message: "Invalid phone format",
-          severity: "critical",
-        },
-        zipcode: {
-          message: "Invalid zipcode",
-          severity: "warning",
-        },
-        street: {
-          message: "Street address is missing",
-          severity: "warning",
-        },
-      },
     },
     {
       id: 174,
@@ -3501,20 +1739,6 @@ export const MOCK_DATA = {
       zipcode: "",
       phone: "951-270-8721",
       status: "active",
-      errors: {
-        phone: {
-          message: "Invalid phone format",
-          severity: "critical",
-        },
-        email: {
-          message: "Invalid email format",
-          severity: "critical",
-        },
-        street: {
-          message: "Street address is missing",
-          severity: "warning",
-        },
-      },
     },
     {
       id: 175,
@@ -3525,20 +1749,6 @@ export const MOCK_DATA = {
       zipcode: "32671",
       phone: "428-762-7468",
       status: "inactive",
-      errors: {
-        street: {
-          message: "Street address is missing",
-          severity: "warning",
-        },
-        email: {
-          message: "Invalid email format",
-          severity: "critical",
-        },
-        phone: {
-          message: "Invalid phone format",
-          severity: "critical",
-        },
-      },
     },
     {
       id: 176,
@@ -3549,16 +1759,6 @@ export const MOCK_DATA = {
       zipcode: "18976",
       phone: "604-186-1776",
       status: "active",
-      errors: {
-        phone: {
-          message: "Invalid phone format",
-          severity: "critical",
-        },
-        email: {
-          message: "Invalid email format",
-          severity: "critical",
-        },
-      },
     },
     {
       id: 177,
@@ -3569,20 +1769,6 @@ export const MOCK_DATA = {
       zipcode: "59419",
       phone: "698-516-3986",
       status: "active",
-      errors: {
-        zipcode: {
-          message: "Zipcode is missing",
-          severity: "warning",
-        },
-        email: {
-          message: "Invalid email format",
-          severity: "critical",
-        },
-        phone: {
-          message: "Invalid phone format",
-          severity: "critical",
-        },
-      },
     },
     {
       id: 178,
@@ -3593,12 +1779,6 @@ export const MOCK_DATA = {
       zipcode: "",
       phone: "122-594-2367",
       status: "inactive",
-      errors: {
-        zipcode: {
-          message: "Invalid zipcode",
-          severity: "warning",
-        },
-      },
     },
     {
       id: 179,
@@ -3609,12 +1789,6 @@ export const MOCK_DATA = {
       zipcode: "21220",
       phone: "482-966-9908",
       status: "inactive",
-      errors: {
-        zipcode: {
-          message: "Invalid zipcode",
-          severity: "critical",
-        },
-      },
     },
     {
       id: 180,
@@ -3625,12 +1799,6 @@ export const MOCK_DATA = {
       zipcode: "",
       phone: "460-921-4026",
       status: "pending",
-      errors: {
-        street: {
-          message: "Street address is missing",
-          severity: "warning",
-        },
-      },
     },
     {
       id: 181,
@@ -3641,12 +1809,6 @@ export const MOCK_DATA = {
       zipcode: "14571",
       phone: "949-452-2241",
       status: "pending",
-      errors: {
-        street: {
-          message: "Street address is missing",
-          severity: "warning",
-        },
-      },
     },
     {
       id: 182,
@@ -3657,16 +1819,6 @@ export const MOCK_DATA = {
       zipcode: "63187",
       phone: "643-844-4379",
       status: "active",
-      errors: {
-        phone: {
-          message: "Invalid phone format",
-          severity: "critical",
-        },
-        zipcode: {
-          message: "Zipcode is missing",
-          severity: "critical",
-        },
-      },
     },
     {
       id: 183,
@@ -3677,12 +1829,6 @@ export const MOCK_DATA = {
       zipcode: "",
       phone: "",
       status: "inactive",
-      errors: {
-        zipcode: {
-          message: "Invalid zipcode",
-          severity: "warning",
-        },
-      },
     },
     {
       id: 184,
@@ -3693,12 +1839,6 @@ export const MOCK_DATA = {
       zipcode: "63286",
       phone: "570-856-2836",
       status: "pending",
-      errors: {
-        zipcode: {
-          message: "Invalid zipcode",
-          severity: "critical",
-        },
-      },
     },
     {
       id: 185,
@@ -3709,16 +1849,6 @@ export const MOCK_DATA = {
       zipcode: "95335",
       phone: "422-108-7196",
       status: "inactive",
-      errors: {
-        street: {
-          message: "Street address is missing",
-          severity: "warning",
-        },
-        phone: {
-          message: "Invalid phone format",
-          severity: "critical",
-        },
-      },
     },
     {
       id: 186,
@@ -3729,16 +1859,6 @@ export const MOCK_DATA = {
       zipcode: "17311",
       phone: "421-363-6643",
       status: "active",
-      errors: {
-        email: {
-          message: "Invalid email format",
-          severity: "critical",
-        },
-        street: {
-          message: "Street address is missing",
-          severity: "warning",
-        },
-      },
     },
     {
       id: 187,
@@ -3749,12 +1869,6 @@ export const MOCK_DATA = {
       zipcode: "74770",
       phone: "202-181-3548",
       status: "pending",
-      errors: {
-        zipcode: {
-          message: "Invalid zipcode",
-          severity: "critical",
-        },
-      },
     },
     {
       id: 188,
@@ -3765,20 +1879,6 @@ export const MOCK_DATA = {
       zipcode: "79838",
       phone: "735-501-5666",
       status: "inactive",
-      errors: {
-        zipcode: {
-          message: "Invalid zipcode",
-          severity: "critical",
-        },
-        street: {
-          message: "Street address is missing",
-          severity: "warning",
-        },
-        email: {
-          message: "Invalid email format",
-          severity: "critical",
-        },
-      },
     },
     {
       id: 189,
@@ -3789,20 +1889,6 @@ export const MOCK_DATA = {
       zipcode: "24781",
       phone: "841-330-3241",
       status: "pending",
-      errors: {
-        email: {
-          message: "Invalid email format",
-          severity: "critical",
-        },
-        phone: {
-          message: "Invalid phone format",
-          severity: "critical",
-        },
-        street: {
-          message: "Street address is missing",
-          severity: "warning",
-        },
-      },
     },
     {
       id: 190,
@@ -3813,12 +1899,6 @@ export const MOCK_DATA = {
       zipcode: "63067",
       phone: "907-934-7139",
       status: "inactive",
-      errors: {
-        phone: {
-          message: "Invalid phone format",
-          severity: "critical",
-        },
-      },
     },
     {
       id: 191,
@@ -3829,20 +1909,6 @@ export const MOCK_DATA = {
       zipcode: "50190",
       phone: "317-812-5959",
       status: "pending",
-      errors: {
-        phone: {
-          message: "Invalid phone format",
-          severity: "critical",
-        },
-        zipcode: {
-          message: "Invalid zipcode",
-          severity: "warning",
-        },
-        street: {
-          message: "Street address is missing",
-          severity: "warning",
-        },
-      },
     },
     {
       id: 192,
@@ -3853,16 +1919,6 @@ export const MOCK_DATA = {
       zipcode: "",
       phone: "423-510-4508",
       status: "inactive",
-      errors: {
-        zipcode: {
-          message: "Invalid zipcode",
-          severity: "warning",
-        },
-        phone: {
-          message: "Invalid phone format",
-          severity: "critical",
-        },
-      },
     },
     {
       id: 193,
@@ -3873,12 +1929,6 @@ export const MOCK_DATA = {
       zipcode: "83069",
       phone: "",
       status: "pending",
-      errors: {
-        phone: {
-          message: "Invalid phone format",
-          severity: "critical",
-        },
-      },
     },
     {
       id: 194,
@@ -3889,20 +1939,6 @@ export const MOCK_DATA = {
       zipcode: "88665",
       phone: "601-240-9334",
       status: "pending",
-      errors: {
-        phone: {
-          message: "Invalid phone format",
-          severity: "critical",
-        },
-        email: {
-          message: "Invalid email format",
-          severity: "warning",
-        },
-        zipcode: {
-          message: "Zipcode is missing",
-          severity: "warning",
-        },
-      },
     },
     {
       id: 195,
@@ -3913,12 +1949,6 @@ export const MOCK_DATA = {
       zipcode: "29822",
       phone: "455-104-7762",
       status: "pending",
-      errors: {
-        zipcode: {
-          message: "Invalid zipcode",
-          severity: "warning",
-        },
-      },
     },
     {
       id: 196,
@@ -3929,16 +1959,6 @@ export const MOCK_DATA = {
       zipcode: "73962",
       phone: "",
       status: "active",
-      errors: {
-        phone: {
-          message: "Invalid phone format",
-          severity: "critical",
-        },
-        street: {
-          message: "Street address is missing",
-          severity: "warning",
-        },
-      },
     },
     {
       id: 197,
@@ -3949,16 +1969,6 @@ export const MOCK_DATA = {
       zipcode: "10249",
       phone: "998-722-8984",
       status: "pending",
-      errors: {
-        phone: {
-          message: "Invalid phone format",
-          severity: "critical",
-        },
-        street: {
-          message: "Street address is missing",
-          severity: "warning",
-        },
-      },
     },
     {
       id: 198,
@@ -3969,12 +1979,6 @@ export const MOCK_DATA = {
       zipcode: "40173",
       phone: "132-931-4586",
       status: "active",
-      errors: {
-        phone: {
-          message: "Invalid phone format",
-          severity: "critical",
-        },
-      },
     },
     {
       id: 199,
@@ -3985,12 +1989,6 @@ export const MOCK_DATA = {
       zipcode: "92710",
       phone: "728-148-6791",
       status: "pending",
-      errors: {
-        zipcode: {
-          message: "Invalid zipcode",
-          severity: "warning",
-        },
-      },
     },
     {
       id: 200,
@@ -4001,20 +1999,6 @@ export const MOCK_DATA = {
       zipcode: "88779",
       phone: "765-716-5707",
       status: "inactive",
-      errors: {
-        zipcode: {
-          message: "Zipcode is missing",
-          severity: "critical",
-        },
-        phone: {
-          message: "Invalid phone format",
-          severity: "critical",
-        },
-        street: {
-          message: "Street address is missing",
-          severity: "warning",
-        },
-      },
     },
   ],
 };
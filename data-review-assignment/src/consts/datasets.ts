@@ -0,0 +1,8 @@
+// consts/datasets.ts
+
+// The mock data from consts/data.ts is seeded into this dataset on first run
+export const SAMPLE_DATASET_ID = "sample";
+export const SAMPLE_DATASET_NAME = "Sample data";
+
+// Datasets are validated by rules/default.json unless they picked another rule file on import
+export const DEFAULT_RULE_SET_ID = "default";
@@ -0,0 +1,118 @@
+// consts/emailDomains.ts
+
+// Misspellings of popular mail domains we see over and over in vendor files -> what they meant
+export const DOMAIN_TYPOS: { [typo: string]: string } = {
+    "gmial.com": "gmail.com",
+    "gmai.com": "gmail.com",
+    "gamil.com": "gmail.com",
+    "gnail.com": "gmail.com",
+    "gmaill.com": "gmail.com",
+    "gmail.co": "gmail.com",
+    "gmail.cm": "gmail.com",
+    "gmail.con": "gmail.com",
+    "hotmial.com": "hotmail.com",
+    "hotmal.com": "hotmail.com",
+    "hotmail.co": "hotmail.com",
+    "hotmail.con": "hotmail.com",
+    "yaho.com": "yahoo.com",
+    "yahooo.com": "yahoo.com",
+    "yahoo.co": "yahoo.com",
+    "yahoo.con": "yahoo.com",
+    "outlok.com": "outlook.com",
+    "outloo.com": "outlook.com",
+    "outlook.co": "outlook.com",
+    "iclod.com": "icloud.com",
+    "icloud.co": "icloud.com",
+    "aol.co": "aol.com",
+    "exmaple.com": "example.com",
+    "example.co": "example.com",
+};
+
+// Domains the near-miss check in lib/suggestions.ts compares against—close-but-not-equal means a likely typo.
+// Real providers that are one letter off a bigger one (mail.com, ymail.com) are listed so they aren't "fixed".
+// Only the ones with names of five letters or more are fuzzy-matched; typos of the short ones go in DOMAIN_TYPOS.
+export const POPULAR_DOMAINS = [
+    "gmail.com",
+    "googlemail.com",
+    "mail.com",
+    "gmx.com",
+    "yahoo.com",
+    "ymail.com",
+    "hotmail.com",
+    "outlook.com",
+    "live.com",
+    "msn.com",
+    "icloud.com",
+    "aol.com",
+    "comcast.net",
+    "verizon.net",
+    "protonmail.com",
+];
+
+// Misspelled top-level domains, fixed on any domain
+export const TLD_TYPOS: { [typo: string]: string } = {
+    con: "com",
+    cmo: "com",
+    ocm: "com",
+    vom: "com",
+    xom: "com",
+    comm: "com",
+    nte: "net",
+    ent: "net",
+    ogr: "org",
+    rog: "org",
+};
+
+// Throwaway inbox providers—the address works today and is gone tomorrow. Subdomains count too.
+export const DISPOSABLE_DOMAINS = [
+    "10minutemail.com",
+    "burnermail.io",
+    "discard.email",
+    "dispostable.com",
+    "emailondeck.com",
+    "fakeinbox.com",
+    "getnada.com",
+    "guerrillamail.com",
+    "guerrillamail.net",
+    "mailinator.com",
+    "maildrop.cc",
+    "mailnesia.com",
+    "mintemail.com",
+    "moakt.com",
+    "mohmal.com",
+    "sharklasers.com",
+    "spamgourmet.com",
+    "temp-mail.org",
+    "tempmail.com",
+    "throwawaymail.com",
+    "trashmail.com",
+    "yopmail.com",
+];
+
+// Local parts that reach a team or a robot rather than the person on the record
+export const ROLE_LOCAL_PARTS = [
+    "abuse",
+    "admin",
+    "administrator",
+    "billing",
+    "careers",
+    "contact",
+    "do-not-reply",
+    "donotreply",
+    "enquiries",
+    "hello",
+    "help",
+    "hostmaster",
+    "hr",
+    "info",
+    "jobs",
+    "marketing",
+    "no-reply",
+    "noreply",
+    "office",
+    "postmaster",
+    "sales",
+    "support",
+    "team",
+    "webmaster",
+];
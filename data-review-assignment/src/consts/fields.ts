@@ -0,0 +1,33 @@
+// consts/fields.ts
+
+import { ValidatedField } from "@/src/types/record";
+
+// Fields rule files can put rules on, in the order they're shown in filters and exports
+export const VALIDATED_FIELDS: ValidatedField[] = ["email", "phone", "zipcode", "street", "city", "name", "status"];
+
+// Customer statuses reviewers can set (one at a time or in bulk)
+export const STATUSES = ["active", "inactive", "pending"] as const;
+export type Status = (typeof STATUSES)[number];
+
+// Fields reviewers are allowed to fix from the table (PATCH /api/data/[id])
+export const EDITABLE_FIELDS = ["name", "email", "street", "city", "zipcode", "phone"] as const;
+export type EditableField = (typeof EDITABLE_FIELDS)[number];
+
+// Fields a reviewer picks the surviving value for when merging duplicates
+export const MERGE_FIELDS = ["name", "email", "street", "city", "zipcode", "phone", "status"] as const;
+export type MergeField = (typeof MERGE_FIELDS)[number];
+
+// Fields a CSV import can fill in—ids are always assigned by the store
+export const IMPORT_FIELDS = ["name", "email", "street", "city", "zipcode", "phone", "status"] as const;
+export type ImportField = (typeof IMPORT_FIELDS)[number];
+
+// Header spellings we've seen in vendor files, normalized the same way as in lib/csvImport.ts
+export const IMPORT_FIELD_ALIASES: { [field in ImportField]: string[] } = {
+    name: ["name", "fullname", "customer", "customername", "contact", "contactname"],
+    email: ["email", "emailaddress", "mail"],
+    street: ["street", "streetaddress", "address", "address1", "addressline1"],
+    city: ["city", "town"],
+    zipcode: ["zipcode", "zip", "postalcode", "postcode", "zip5"],
+    phone: ["phone", "phonenumber", "telephone", "tel", "mobile"],
+    status: ["status", "customerstatus", "accountstatus"],
+};
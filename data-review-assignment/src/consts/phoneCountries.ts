@@ -0,0 +1,51 @@
+// consts/phoneCountries.ts
+// Offline numbering-plan metadata—just enough to normalize numbers to E.164 without calling out to a service
+
+export type PhoneLineType = "mobile" | "fixed_line" | "fixed_or_mobile" | "toll_free" | "premium";
+
+export interface PhoneCountry {
+    callingCode: string;
+    country: string; // ISO 3166-1 alpha-2
+    nationalLengths: number[]; // Digits after the calling code (and after dropping the trunk prefix)
+    trunkPrefix?: string; // Dialled before national numbers at home ("0" in the UK), never part of E.164
+    mobilePattern?: RegExp; // National numbers matching this are mobiles; everything else is a fixed line
+}
+
+// Everything outside North America. NANP (+1) has its own rules in lib/phone.ts.
+export const PHONE_COUNTRIES: PhoneCountry[] = [
+    { callingCode: "44", country: "GB", nationalLengths: [10], trunkPrefix: "0", mobilePattern: /^7/ },
+    { callingCode: "353", country: "IE", nationalLengths: [9], trunkPrefix: "0", mobilePattern: /^8/ },
+    { callingCode: "49", country: "DE", nationalLengths: [7, 8, 9, 10, 11], trunkPrefix: "0", mobilePattern: /^1[5-7]/ },
+    { callingCode: "33", country: "FR", nationalLengths: [9], trunkPrefix: "0", mobilePattern: /^[67]/ },
+    { callingCode: "34", country: "ES", nationalLengths: [9], mobilePattern: /^[67]/ },
+    { callingCode: "39", country: "IT", nationalLengths: [6, 7, 8, 9, 10, 11], mobilePattern: /^3/ },
+    { callingCode: "31", country: "NL", nationalLengths: [9], trunkPrefix: "0", mobilePattern: /^6/ },
+    { callingCode: "52", country: "MX", nationalLengths: [10] },
+    { callingCode: "55", country: "BR", nationalLengths: [10, 11], mobilePattern: /^\d{2}9\d{8}$/ },
+    { callingCode: "61", country: "AU", nationalLengths: [9], trunkPrefix: "0", mobilePattern: /^4/ },
+    { callingCode: "81", country: "JP", nationalLengths: [9, 10], trunkPrefix: "0", mobilePattern: /^[789]0/ },
+    { callingCode: "86", country: "CN", nationalLengths: [10, 11], trunkPrefix: "0", mobilePattern: /^1/ },
+    { callingCode: "91", country: "IN", nationalLengths: [10], trunkPrefix: "0", mobilePattern: /^[6-9]/ },
+];
+
+// NANP area codes that aren't in the US. Anything else with a valid area code is treated as US.
+export const NANP_AREA_CODE_COUNTRIES: { [areaCode: string]: string } = {
+    // Canada
+    ...Object.fromEntries(
+        [
+            "204", "226", "236", "249", "250", "257", "263", "289", "306", "343", "354", "365", "367", "368", "382",
+            "403", "416", "418", "428", "431", "437", "438", "450", "468", "474", "506", "514", "519", "548", "579",
+            "581", "584", "587", "604", "613", "639", "647", "672", "683", "705", "709", "742", "753", "778", "780",
+            "782", "807", "819", "825", "867", "873", "879", "902", "905",
+        ].map((areaCode) => [areaCode, "CA"])
+    ),
+    // Caribbean and Atlantic members of the plan
+    "242": "BS", "246": "BB", "264": "AI", "268": "AG", "284": "VG", "345": "KY", "441": "BM", "473": "GD",
+    "649": "TC", "658": "JM", "664": "MS", "721": "SX", "758": "LC", "767": "DM", "784": "VC", "809": "DO",
+    "829": "DO", "849": "DO", "868": "TT", "869": "KN", "876": "JM",
+    // US territories with their own country codes
+    "340": "VI", "670": "MP", "671": "GU", "684": "AS", "787": "PR", "939": "PR",
+};
+
+export const NANP_TOLL_FREE_AREA_CODES = ["800", "833", "844", "855", "866", "877", "888"];
+export const NANP_PREMIUM_AREA_CODES = ["900"];
@@ -0,0 +1,20 @@
+// consts/review.ts
+// Our review progress on a record—separate from `status`, which describes the customer
+
+export const REVIEW_STATES = ["unreviewed", "in_review", "approved", "rejected"] as const;
+export type ReviewState = (typeof REVIEW_STATES)[number];
+
+export const REVIEW_STATE_LABELS: { [state in ReviewState]: string } = {
+    unreviewed: "Unreviewed",
+    in_review: "In review",
+    approved: "Approved",
+    rejected: "Rejected",
+};
+
+// Where a record can go from each state. A decision has to be reopened (back to in review) before it can be flipped.
+export const REVIEW_TRANSITIONS: { [state in ReviewState]: ReviewState[] } = {
+    unreviewed: ["in_review", "approved", "rejected"],
+    in_review: ["approved", "rejected", "unreviewed"],
+    approved: ["in_review"],
+    rejected: ["in_review"],
+};
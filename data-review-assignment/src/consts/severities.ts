@@ -0,0 +1,13 @@
+// consts/severities.ts
+
+// Worst first. A blocker stops a record from being approved at all, critical needs an override reason to approve,
+// warnings are worth fixing, and info is a note for the reviewer (e.g. "PO box address") rather than a problem.
+export const SEVERITIES = ["blocker", "critical", "warning", "info"] as const;
+export type Severity = (typeof SEVERITIES)[number];
+
+export const SEVERITY_LABELS: { [severity in Severity]: string } = {
+    blocker: "Blocker",
+    critical: "Critical",
+    warning: "Warning",
+    info: "Info",
+};
@@ -0,0 +1,82 @@
+// consts/zipCodes.ts
+// Offline US postal reference—which state each 3-digit ZIP prefix belongs to, plus the ZIP ranges of the cities we
+// mail to most. Coarse on purpose: enough to catch ZIPs that can't exist or sit in the wrong place, no API needed.
+
+// [first prefix, last prefix, state]. Military (AA/AE/AP) and territories included since USPS treats them as states.
+export const ZIP3_STATES: [string, string, string][] = [
+    ["005", "005", "NY"], ["006", "007", "PR"], ["008", "008", "VI"], ["009", "009", "PR"],
+    ["010", "027", "MA"], ["028", "029", "RI"], ["030", "038", "NH"], ["039", "049", "ME"],
+    ["050", "054", "VT"], ["055", "055", "MA"], ["056", "059", "VT"], ["060", "069", "CT"],
+    ["070", "089", "NJ"], ["090", "099", "AE"], ["100", "149", "NY"], ["150", "196", "PA"],
+    ["197", "199", "DE"], ["200", "200", "DC"], ["201", "201", "VA"], ["202", "205", "DC"],
+    ["206", "219", "MD"], ["220", "246", "VA"], ["247", "268", "WV"], ["270", "289", "NC"],
+    ["290", "299", "SC"], ["300", "319", "GA"], ["320", "339", "FL"], ["340", "340", "AA"],
+    ["341", "349", "FL"], ["350", "369", "AL"], ["370", "385", "TN"], ["386", "397", "MS"],
+    ["398", "399", "GA"], ["400", "427", "KY"], ["430", "459", "OH"], ["460", "479", "IN"],
+    ["480", "499", "MI"], ["500", "528", "IA"], ["530", "549", "WI"], ["550", "567", "MN"],
+    ["569", "569", "DC"], ["570", "577", "SD"], ["580", "588", "ND"], ["590", "599", "MT"],
+    ["600", "629", "IL"], ["630", "658", "MO"], ["660", "679", "KS"], ["680", "693", "NE"],
+    ["700", "714", "LA"], ["716", "729", "AR"], ["730", "732", "OK"], ["733", "733", "TX"],
+    ["734", "749", "OK"], ["750", "799", "TX"], ["800", "816", "CO"], ["820", "831", "WY"],
+    ["832", "838", "ID"], ["840", "847", "UT"], ["850", "865", "AZ"], ["870", "884", "NM"],
+    ["885", "885", "TX"], ["889", "898", "NV"], ["900", "961", "CA"], ["962", "966", "AP"],
+    ["967", "968", "HI"], ["969", "969", "GU"], ["970", "979", "OR"], ["980", "994", "WA"],
+    ["995", "999", "AK"],
+];
+
+// Prefixes inside the ranges above that USPS has never handed out
+export const UNASSIGNED_ZIP3 = [
+    "213", "269", "343", "345", "348", "353", "419", "517", "518", "519", "533", "536", "552", "578", "579", "589",
+    "621", "632", "642", "643", "659", "663", "682", "709", "742", "771", "851", "854", "858", "861", "862", "876",
+    "892", "896", "899", "909", "929", "987",
+];
+
+export interface CityZipcodes {
+    city: string;
+    state: string;
+    ranges: [string, string][]; // Inclusive 5-digit ranges
+}
+
+// The ten biggest US cities by population—covers every city in the sample data. These are the ranges of each city's
+// main post office areas, not a full list: New York has all five boroughs and Los Angeles the Valley and the harbor,
+// but ZIPs for neighbourhoods with their own postal names (La Jolla in San Diego, Kingwood in Houston...) are missing.
+// So a ZIP outside a city's ranges is only worth a note—see checkZipcodeLocation in lib/validation.ts.
+export const CITY_ZIPCODES: CityZipcodes[] = [
+    {
+        city: "New York",
+        state: "NY",
+        ranges: [
+            ["10001", "10282"], // Manhattan
+            ["10301", "10314"], // Staten Island
+            ["10451", "10475"], // Bronx
+            ["11004", "11005"], // Queens...
+            ["11101", "11120"],
+            ["11351", "11436"],
+            ["11691", "11697"],
+            ["11201", "11256"], // Brooklyn
+        ],
+    },
+    {
+        city: "Los Angeles",
+        state: "CA",
+        ranges: [
+            ["90001", "90099"],
+            ["90101", "90103"],
+            ["90189", "90189"],
+            ["90291", "90293"], // Venice, Playa del Rey
+            ["90731", "90748"], // San Pedro, Wilmington, Harbor City
+            ["91040", "91043"], // Sunland, Tujunga
+            ["91303", "91367"], // West Valley
+            ["91401", "91499"], // Van Nuys, Sherman Oaks
+            ["91601", "91609"], // North Hollywood
+        ],
+    },
+    { city: "Chicago", state: "IL", ranges: [["60601", "60707"]] },
+    { city: "Houston", state: "TX", ranges: [["77001", "77099"], ["77201", "77299"]] },
+    { city: "Phoenix", state: "AZ", ranges: [["85001", "85099"]] },
+    { city: "Philadelphia", state: "PA", ranges: [["19101", "19199"]] },
+    { city: "San Antonio", state: "TX", ranges: [["78201", "78299"]] },
+    { city: "San Diego", state: "CA", ranges: [["92101", "92199"]] },
+    { city: "Dallas", state: "TX", ranges: [["75201", "75398"]] },
+    { city: "San Jose", state: "CA", ranges: [["95101", "95199"]] },
+];
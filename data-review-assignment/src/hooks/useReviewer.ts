@@ -0,0 +1,30 @@
+// hooks/useReviewer.ts
+// The reviewer's name, remembered in localStorage and sent as a header with every API request so the
+// audit log knows who made each change
+
+import { useEffect, useState } from "react";
+import axios from "axios";
+import { encodeReviewer, REVIEWER_HEADER } from "@/src/lib/reviewer";
+
+const STORAGE_KEY = "reviewer";
+
+export default function useReviewer(): [string, (name: string) => void] {
+    const [reviewer, setReviewer] = useState<string>("");
+
+    // localStorage only exists in the browser, so read it after the first render
+    useEffect(() => {
+        setReviewer(localStorage.getItem(STORAGE_KEY) || "");
+    }, []);
+
+    useEffect(() => {
+        if (reviewer.trim()) axios.defaults.headers.common[REVIEWER_HEADER] = encodeReviewer(reviewer);
+        else delete axios.defaults.headers.common[REVIEWER_HEADER];
+    }, [reviewer]);
+
+    const updateReviewer = (name: string) => {
+        setReviewer(name);
+        localStorage.setItem(STORAGE_KEY, name);
+    };
+
+    return [reviewer, updateReviewer];
+}
@@ -0,0 +1,60 @@
+// hooks/useTableUrl.ts
+// Keeps the table's query and open record in the URL, so a link reproduces what's on screen. Every change is a
+// new history entry, so back and forward step through them; navigating that way hands the URL's state back.
+
+import { useEffect, useRef, useState } from "react";
+import Router, { useRouter } from "next/router";
+import { parseTableUrl, RawQuery, TableQuery, toTableUrlParams } from "@/src/lib/tableQuery";
+
+interface TableUrlOptions {
+    query: TableQuery;
+    recordId?: number; // The record whose modal is open
+    onQueryChange: (query: TableQuery) => void; // The URL changed under us (page load, back/forward)...
+    onRecordChange: (recordId?: number) => Promise<void> | void; // ...and so did the open record—may need a fetch first
+}
+
+// Same parameters in the same order whichever side they came from, so comparing the strings is enough
+const canonical = (query: TableQuery, recordId?: number) => toTableUrlParams(query, recordId).toString();
+
+const currentUrlQuery = (): RawQuery => {
+    const params = new URLSearchParams(window.location.search);
+    return Object.fromEntries(Array.from(new Set(params.keys())).map((key) => [key, params.getAll(key)]));
+};
+
+// Resolves to true once the URL has been read—fetch nothing before then, or the first request is for the defaults
+export default function useTableUrl({ query, recordId, onQueryChange, onRecordChange }: TableUrlOptions): boolean {
+    const router = useRouter();
+    const [ready, setReady] = useState<boolean>(false);
+    const openingRecord = useRef(false); // Don't write the URL while a linked record is still loading—it'd drop ?record=
+    // The latest state and callbacks, read by the URL effect without re-running it on every state change
+    const latest = useRef({ query, recordId, onQueryChange, onRecordChange });
+    latest.current = { query, recordId, onQueryChange, onRecordChange };
+
+    // URL -> table
+    useEffect(() => {
+        if (!router.isReady) return;
+        const fromUrl = parseTableUrl(router.query);
+        const { query: current, recordId: currentRecordId } = latest.current;
+        if (canonical(fromUrl.query) !== canonical(current)) latest.current.onQueryChange(fromUrl.query);
+        if (fromUrl.recordId !== currentRecordId) {
+            const opening = latest.current.onRecordChange(fromUrl.recordId);
+            if (opening) {
+                openingRecord.current = true;
+                opening.finally(() => (openingRecord.current = false));
+            }
+        }
+        setReady(true);
+    }, [router.isReady, router.asPath, router.query]);
+
+    // Table -> URL. Reads the address bar rather than the router so a back/forward that's still being applied
+    // can't be undone by pushing the state it's about to replace.
+    useEffect(() => {
+        if (!ready || openingRecord.current) return;
+        const fromUrl = parseTableUrl(currentUrlQuery());
+        const next = canonical(query, recordId);
+        if (next === canonical(fromUrl.query, fromUrl.recordId)) return;
+        Router.push(next ? `${Router.pathname}?${next}` : Router.pathname, undefined, { shallow: true });
+    }, [ready, query, recordId]);
+
+    return ready;
+}
@@ -0,0 +1,80 @@
+// hooks/useVirtualRows.ts
+// Only the rows in (or just around) the visible part of a scroll container get rendered;
+// spacer rows above and below keep the scrollbar the same size as if every row were there.
+
+import { useCallback, useEffect, useState } from "react";
+
+interface VirtualRowsOptions {
+    count: number; // Total rows
+    estimatedRowHeight: number; // Used until a real row has been measured
+    overscan?: number; // Extra rows on each side so fast scrolling doesn't flash blanks
+}
+
+export interface VirtualRows {
+    start: number; // First index to render
+    end: number; // One past the last index to render
+    paddingTop: number;
+    paddingBottom: number;
+    containerRef: (container: HTMLElement | null) => void; // Attach to the element with overflow-y: auto
+    scrollToTop: () => void;
+    measureRow: (row: HTMLElement | null) => void; // Attach to one rendered row so we learn the real height
+}
+
+const DEFAULT_OVERSCAN = 5;
+
+// Render budget: at most ceil(viewport / rowHeight) + 2 * overscan rows are ever in the DOM,
+// no matter how many rows there are—about 16 rows for the table's max-h-96 box.
+export const maxRenderedRows = (viewportHeight: number, rowHeight: number, overscan = DEFAULT_OVERSCAN) =>
+    Math.ceil(viewportHeight / rowHeight) + 2 * overscan;
+
+export default function useVirtualRows({
+    count,
+    estimatedRowHeight,
+    overscan = DEFAULT_OVERSCAN,
+}: VirtualRowsOptions): VirtualRows {
+    const [container, setContainer] = useState<HTMLElement | null>(null); // State rather than a ref so we notice when it mounts
+    const [scrollTop, setScrollTop] = useState<number>(0);
+    const [viewportHeight, setViewportHeight] = useState<number>(0);
+    const [rowHeight, setRowHeight] = useState<number>(estimatedRowHeight);
+
+    // Track scrolling and resizing of the container—passive listener so scrolling stays smooth
+    useEffect(() => {
+        if (!container) return;
+
+        const handleScroll = () => setScrollTop(container.scrollTop);
+        const observer = new ResizeObserver(() => setViewportHeight(container.clientHeight));
+
+        handleScroll();
+        setViewportHeight(container.clientHeight);
+        container.addEventListener("scroll", handleScroll, { passive: true });
+        observer.observe(container);
+
+        return () => {
+            container.removeEventListener("scroll", handleScroll);
+            observer.disconnect();
+        };
+    }, [container]);
+
+    const scrollToTop = useCallback(() => {
+        if (container) container.scrollTop = 0;
+    }, [container]);
+
+    const measureRow = useCallback((row: HTMLElement | null) => {
+        if (row && row.offsetHeight > 0) {
+            setRowHeight((current) => (current === row.offsetHeight ? current : row.offsetHeight));
+        }
+    }, []);
+
+    const start = Math.max(Math.floor(scrollTop / rowHeight) - overscan, 0);
+    const end = Math.min(start + maxRenderedRows(viewportHeight, rowHeight, overscan), count);
+
+    return {
+        start,
+        end,
+        paddingTop: start * rowHeight,
+        paddingBottom: (count - end) * rowHeight,
+        containerRef: setContainer,
+        scrollToTop,
+        measureRow,
+    };
+}
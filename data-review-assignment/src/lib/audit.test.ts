@@ -0,0 +1,58 @@
+/** @jest-environment node */
+// Change log entries going in (diffChanges) and coming back out (recordAsOf)
+
+import { diffChanges, recordAsOf } from "@/src/lib/audit";
+import { ChangeEntry } from "@/src/types/audit";
+import { Record } from "@/src/types/record";
+
+const original: Record = { id: 7, name: "John Doe", email: "john@example.com", city: "Houston", status: "active" };
+
+describe("diffChanges", () => {
+    it("writes one entry per field that actually changes", () => {
+        const entries = diffChanges(
+            original,
+            { city: "Dallas", email: "john@example.com", reviewState: "approved" },
+            { user: "ann", source: "edit" },
+            10,
+            "2026-03-01T12:00:00.000Z"
+        );
+
+        expect(entries).toEqual([
+            { id: 10, recordId: 7, field: "city", oldValue: "Houston", newValue: "Dallas", user: "ann", timestamp: "2026-03-01T12:00:00.000Z", source: "edit" },
+            { id: 11, recordId: 7, field: "reviewState", oldValue: null, newValue: "approved", user: "ann", timestamp: "2026-03-01T12:00:00.000Z", source: "edit" },
+        ]);
+    });
+});
+
+describe("recordAsOf", () => {
+    // Houston -> Dallas on March 1st, Dallas -> Austin and approved on March 3rd
+    const current: Record = { ...original, city: "Austin", reviewState: "approved" };
+    const entry = (id: number, field: string, oldValue: string | null, newValue: string, timestamp: string): ChangeEntry => ({
+        id,
+        recordId: 7,
+        field,
+        oldValue,
+        newValue,
+        user: "ann",
+        timestamp,
+        source: "edit",
+    });
+    const entries = [
+        entry(1, "city", "Houston", "Dallas", "2026-03-01T12:00:00.000Z"),
+        entry(2, "city", "Dallas", "Austin", "2026-03-03T12:00:00.000Z"),
+        entry(3, "reviewState", null, "approved", "2026-03-03T12:00:00.000Z"),
+    ];
+
+    it("undoes everything after the given moment", () => {
+        expect(recordAsOf(current, entries, new Date("2026-03-02T00:00:00.000Z"))).toEqual({ ...original, city: "Dallas" });
+        expect(recordAsOf(current, entries, new Date("2026-02-28T00:00:00.000Z"))).toEqual(original);
+    });
+
+    it("undoes the newest change first, whatever order the entries come in", () => {
+        expect(recordAsOf(current, [...entries].reverse(), new Date("2026-02-28T00:00:00.000Z"))).toEqual(original);
+    });
+
+    it("leaves the record alone when nothing changed since", () => {
+        expect(recordAsOf(current, entries, new Date("2026-03-04T00:00:00.000Z"))).toEqual(current);
+    });
+});
@@ -0,0 +1,55 @@
+// lib/audit.ts
+// Builds change log entries from a mutation, and replays the log backwards to see a record as it was
+
+import { AuditValue, ChangeEntry, ChangeSource } from "@/src/types/audit";
+import { Record } from "@/src/types/record";
+import { RecordChanges } from "@/src/lib/store/types";
+
+export interface ChangeContext {
+    user: string;
+    source: ChangeSource;
+}
+
+const toAuditValue = (value: unknown): AuditValue =>
+    value === undefined || value === null ? null : (value as AuditValue);
+
+// One entry per field that actually changes—saving the same value again isn't worth a log line
+export const diffChanges = (
+    record: Record,
+    changes: RecordChanges,
+    context: ChangeContext,
+    nextId: number,
+    timestamp: string
+): ChangeEntry[] => {
+    const entries: ChangeEntry[] = [];
+    Object.entries(changes).forEach(([field, value]) => {
+        const oldValue = toAuditValue(record[field as keyof Record]);
+        const newValue = toAuditValue(value);
+        if (JSON.stringify(oldValue) === JSON.stringify(newValue)) return;
+
+        entries.push({
+            id: nextId + entries.length,
+            recordId: record.id,
+            field,
+            oldValue,
+            newValue,
+            user: context.user,
+            timestamp,
+            source: context.source,
+        });
+    });
+    return entries;
+};
+
+// Undo every change made after `asOf`, newest first, to get the record as it stood at that moment
+export const recordAsOf = (record: Record, entries: ChangeEntry[], asOf: Date): Record => {
+    const past: { [field: string]: unknown } = { ...record };
+    entries
+        .filter((entry) => new Date(entry.timestamp) > asOf)
+        .sort((a, b) => b.id - a.id)
+        .forEach((entry) => {
+            if (entry.oldValue === null) delete past[entry.field];
+            else past[entry.field] = entry.oldValue;
+        });
+    return past as unknown as Record;
+};
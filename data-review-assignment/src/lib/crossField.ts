@@ -0,0 +1,51 @@
+// lib/crossField.ts
+// Evaluating and describing cross-field rules. The rules page describes them too, so nothing server-only in here.
+
+import { Record, ValidatedField } from "@/src/types/record";
+import { CrossFieldRule, FieldCondition } from "@/src/types/rules";
+
+const valueOf = (record: Record, field: ValidatedField) => (record[field] ?? "").trim();
+
+const conditionHolds = (record: Record, condition: FieldCondition) =>
+    condition.equals === undefined
+        ? Boolean(valueOf(record, condition.field))
+        : valueOf(record, condition.field).toLowerCase() === condition.equals.toLowerCase();
+
+// Every field the rule touches—its own fields, then the ones in its conditions
+export const crossFieldFields = (rule: CrossFieldRule): ValidatedField[] =>
+    Array.from(new Set([...rule.fields, ...(rule.when ?? []).map((condition) => condition.field)]));
+
+// Does the record break the rule? Records that don't meet the `when` conditions never do.
+export const breaksCrossFieldRule = (rule: CrossFieldRule, record: Record) => {
+    if (!(rule.when ?? []).every((condition) => conditionHolds(record, condition))) return false;
+
+    const filled = rule.fields.filter((field) => valueOf(record, field)).length;
+    switch (rule.require) {
+        case "all":
+            return filled < rule.fields.length;
+        case "any":
+            return filled === 0;
+        case "all-or-none":
+            return filled > 0 && filled < rule.fields.length;
+    }
+};
+
+// "street", "city and zipcode", "city, street and zipcode"
+const listFields = (fields: string[]) =>
+    fields.length > 1 ? `${fields.slice(0, -1).join(", ")} and ${fields[fields.length - 1]}` : fields[0];
+
+// The rule in words, for the error modal and the rules page
+export const describeCrossFieldRule = (rule: CrossFieldRule) => {
+    const fields = listFields(rule.fields);
+    const requirement = {
+        all: rule.fields.length > 1 ? `${fields} are required` : `${fields} is required`,
+        any: `at least one of ${fields} is required`,
+        "all-or-none": `${fields} must be filled in together or left empty`,
+    }[rule.require];
+
+    const conditions = (rule.when ?? []).map((condition) =>
+        condition.equals === undefined ? `${condition.field} is filled in` : `${condition.field} is "${condition.equals}"`
+    );
+    const sentence = conditions.length > 0 ? `When ${listFields(conditions)}, ${requirement}` : requirement;
+    return sentence.charAt(0).toUpperCase() + sentence.slice(1);
+};
@@ -0,0 +1,100 @@
+// lib/csvImport.ts
+// Turns an uploaded CSV into records—PapaParse does the parsing, we do the column mapping
+
+import Papa from "papaparse";
+import { IMPORT_FIELDS, IMPORT_FIELD_ALIASES, ImportField, STATUSES, Status } from "@/src/consts/fields";
+import { ColumnMapping } from "@/src/types/dataset";
+import { Record } from "@/src/types/record";
+
+const PREVIEW_ROWS = 5;
+const DEFAULT_STATUS = "pending"; // Imported customers we know nothing about are treated as pending
+
+export interface ParsedCsv {
+    headers: string[];
+    rows: { [header: string]: string }[];
+    skippedRows: number;
+}
+
+// "E-mail Address" and "email_address" should both land on "emailaddress"
+const normalizeHeader = (header: string) => header.toLowerCase().replace(/[^a-z0-9]/g, "");
+
+export const parseCsv = (csv: string): ParsedCsv => {
+    const result = Papa.parse<{ [header: string]: string }>(csv, {
+        header: true,
+        skipEmptyLines: "greedy",
+        transformHeader: (header) => header.trim(),
+    });
+
+    // Rows with the wrong number of columns are skipped rather than guessed at
+    const badRows = new Set(result.errors.map((error) => error.row));
+    const rows = result.data.filter((_, index) => !badRows.has(index));
+
+    return {
+        headers: (result.meta.fields || []).filter(Boolean),
+        rows,
+        skippedRows: result.data.length - rows.length,
+    };
+};
+
+export const suggestMapping = (headers: string[]): ColumnMapping => {
+    const mapping: ColumnMapping = {};
+
+    IMPORT_FIELDS.forEach((field) => {
+        const header = headers.find((h) => IMPORT_FIELD_ALIASES[field].includes(normalizeHeader(h)));
+        if (header) mapping[field] = header;
+    });
+
+    return mapping;
+};
+
+// Only skip the mapping step when the file uses our exact column names—anything else gets a human look
+export const needsMapping = (headers: string[]) =>
+    !IMPORT_FIELDS.every((field) => headers.some((header) => header.toLowerCase() === field));
+
+export const previewRows = (parsed: ParsedCsv) => parsed.rows.slice(0, PREVIEW_ROWS);
+
+// Returns an error message for mappings we can't build records from
+export const checkMapping = (mapping: ColumnMapping, headers: string[]): string | null => {
+    for (const [field, header] of Object.entries(mapping)) {
+        if (!IMPORT_FIELDS.includes(field as ImportField)) return `Unknown field "${field}"`;
+        if (header && !headers.includes(header)) return `Column "${header}" is not in the file`;
+    }
+    if (!mapping.name) return "A column must be mapped to name";
+    return null;
+};
+
+// Records without ids—the store assigns those when the dataset is created. A status we don't know fails the whole
+// import: guessing one would quietly change what the vendor sent, and "archived" vs "inactive" is their call to make.
+export const toRecords = (rows: ParsedCsv["rows"], mapping: ColumnMapping): { records: Omit<Record, "id">[] } | { error: string } => {
+    const badStatuses: { row: number; status: string }[] = [];
+
+    const records = rows.map((row, index) => {
+        // Values are kept exactly as the vendor sent them, padding included—validation flags it with a fix,
+        // so reviewers can see how clean the file really was
+        const read = (field: ImportField) => {
+            const header = mapping[field];
+            return header ? row[header] ?? "" : "";
+        };
+
+        const status = read("status").trim().toLowerCase() || DEFAULT_STATUS;
+        if (!STATUSES.includes(status as Status)) badStatuses.push({ row: index + 1, status });
+
+        return {
+            name: read("name"),
+            email: read("email"),
+            street: read("street"),
+            city: read("city"),
+            zipcode: read("zipcode"),
+            phone: read("phone"),
+            status,
+        };
+    });
+
+    if (badStatuses.length > 0) {
+        const [{ row, status }] = badStatuses;
+        const others = badStatuses.length - 1;
+        const more = others > 0 ? ` (and ${others} more ${others === 1 ? "row" : "rows"})` : "";
+        return { error: `Row ${row} has status "${status}"${more}—status must be one of ${STATUSES.join(", ")}` };
+    }
+    return { records };
+};
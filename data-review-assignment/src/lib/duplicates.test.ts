@@ -0,0 +1,62 @@
+/** @jest-environment node */
+// Pairs of records that are or aren't the same person, the way they differ in real files
+
+import { findDuplicates } from "@/src/lib/duplicates";
+import { Record } from "@/src/types/record";
+
+let nextId = 1;
+const record = (fields: Partial<Record>): Record => ({
+    id: nextId++,
+    name: "John Doe",
+    email: "john.doe@example.com",
+    street: "123 Main Street",
+    city: "Houston",
+    zipcode: "77001",
+    phone: "713-555-0100",
+    status: "active",
+    ...fields,
+});
+
+const clusterIds = (records: Record[]) => findDuplicates(records).map((cluster) => cluster.records.map((r) => r.id));
+
+beforeEach(() => {
+    nextId = 1;
+});
+
+describe("findDuplicates", () => {
+    it("sees through name order, email case and tags, phone formatting and street abbreviations", () => {
+        const a = record({});
+        const b = record({ name: "Doe, John", email: "John.Doe+shop@Example.com", phone: "(713) 555-0100", street: "123 Main St." });
+
+        const [cluster, ...rest] = findDuplicates([a, b]);
+        expect(rest).toHaveLength(0);
+        expect(cluster.records).toEqual([a, b]);
+        expect(cluster.score).toBe(1);
+        expect(cluster.matchedOn).toEqual(["name", "email", "phone", "street", "city", "zipcode"]);
+    });
+
+    it("forgives a typo in the name", () => {
+        expect(clusterIds([record({}), record({ name: "Jon Doe" })])).toEqual([[1, 2]]);
+    });
+
+    it("wants the phone or street to agree, not just a name and an email derived from it", () => {
+        const records = [record({}), record({ phone: "832-555-0199", street: "9 Oak Avenue" })];
+        expect(clusterIds(records)).toEqual([]);
+    });
+
+    it("doesn't count the same street in another city", () => {
+        const records = [record({ phone: "" }), record({ phone: "", city: "Dallas", zipcode: "75201" })];
+        expect(clusterIds(records)).toEqual([]);
+    });
+
+    it("groups chains of matches into one cluster", () => {
+        // 1 and 2 share a phone, 2 and 3 a street—1 and 3 share neither, but still end up together
+        const records = [
+            record({ street: "1 Elm St" }),
+            record({}),
+            record({ phone: "" }),
+            record({ name: "Mary Major", email: "mary@example.com", phone: "212-555-0142", street: "5 Oak Ave", city: "Boston", zipcode: "02101" }),
+        ];
+        expect(clusterIds(records)).toEqual([[1, 2, 3]]);
+    });
+});
@@ -0,0 +1,204 @@
+// lib/duplicates.ts
+// Finds records that probably describe the same person. Each pair is scored on normalized name, email, phone and
+// address, pairs above the threshold are linked, and linked records form a cluster (so A~B and B~C is one cluster).
+
+import { parsePhone } from "@/src/lib/phone";
+import { DuplicateCluster, DuplicateField } from "@/src/types/duplicate";
+import { Record } from "@/src/types/record";
+
+// How much each field counts—identifiers outweigh the address, and city/ZIP are shared by plenty of strangers
+const FIELD_WEIGHTS: { [field in DuplicateField]: number } = {
+    name: 3,
+    email: 3,
+    phone: 3,
+    street: 2,
+    city: 1,
+    zipcode: 1,
+};
+
+export const DUPLICATE_THRESHOLD = 0.8;
+
+// A pair needs this much weight in common (name plus at least an email, phone or street) before we trust its score
+const MIN_COMPARED_WEIGHT = 5;
+
+// Same name and email isn't enough on its own—plenty of files derive the email from the name. One of these has to agree too.
+const CORROBORATING_FIELDS: DuplicateField[] = ["phone", "street"];
+
+// Fields at least this similar count as "matched" in the cluster's explanation
+const MATCHED_SIMILARITY = 0.9;
+
+// Blocks bigger than this are too common to mean anything (a whole import with no phones) and would be n² to compare
+const MAX_BLOCK_SIZE = 1000;
+
+const STREET_ABBREVIATIONS: { [word: string]: string } = {
+    street: "st",
+    avenue: "ave",
+    road: "rd",
+    boulevard: "blvd",
+    drive: "dr",
+    lane: "ln",
+    court: "ct",
+    place: "pl",
+    north: "n",
+    south: "s",
+    east: "e",
+    west: "w",
+    apartment: "apt",
+    suite: "ste",
+};
+
+type NormalizedRecord = { [field in DuplicateField]: string };
+
+const words = (value: string) =>
+    value
+        .toLowerCase()
+        .replace(/[^a-z0-9\s]/g, " ")
+        .split(/\s+/)
+        .filter(Boolean);
+
+// "Doe, John" and "john  doe" are the same name
+const normalizeName = (value: string) => words(value).sort().join(" ");
+
+// Case and plus-addressing don't change whose inbox it is
+const normalizeEmail = (value: string) => {
+    const [local, domain] = value.trim().toLowerCase().split("@");
+    return domain === undefined ? local : `${local.split("+")[0]}@${domain}`;
+};
+
+const normalizePhone = (value: string) => parsePhone(value).e164 ?? value.replace(/\D/g, "");
+
+// "123 Main Street." -> "123 main st"
+const normalizeStreet = (value: string) =>
+    words(value)
+        .map((word) => STREET_ABBREVIATIONS[word] ?? word)
+        .join(" ");
+
+const normalize = (record: Record): NormalizedRecord => ({
+    name: normalizeName(record.name || ""),
+    email: normalizeEmail(record.email || ""),
+    phone: normalizePhone(record.phone || ""),
+    street: normalizeStreet(record.street || ""),
+    city: words(record.city || "").join(" "),
+    zipcode: (record.zipcode || "").trim().slice(0, 5),
+});
+
+// Jaro-Winkler: forgiving of typos and transpositions, and rewards a shared prefix
+const jaroWinkler = (a: string, b: string) => {
+    if (a === b) return 1;
+    if (!a || !b) return 0;
+
+    const window = Math.max(0, Math.floor(Math.max(a.length, b.length) / 2) - 1);
+    const aMatched = new Array<boolean>(a.length).fill(false);
+    const bMatched = new Array<boolean>(b.length).fill(false);
+    let matches = 0;
+    for (let i = 0; i < a.length; i++) {
+        for (let j = Math.max(0, i - window); j < Math.min(b.length, i + window + 1); j++) {
+            if (bMatched[j] || a[i] !== b[j]) continue;
+            aMatched[i] = bMatched[j] = true;
+            matches++;
+            break;
+        }
+    }
+    if (matches === 0) return 0;
+
+    let transpositions = 0;
+    let j = 0;
+    for (let i = 0; i < a.length; i++) {
+        if (!aMatched[i]) continue;
+        while (!bMatched[j]) j++;
+        if (a[i] !== b[j]) transpositions++;
+        j++;
+    }
+
+    const jaro = (matches / a.length + matches / b.length + (matches - transpositions / 2) / matches) / 3;
+    let prefix = 0;
+    while (prefix < 4 && a[prefix] === b[prefix]) prefix++;
+    return jaro + prefix * 0.1 * (1 - jaro);
+};
+
+// Names and streets are fuzzy; emails, phones, cities and ZIPs either match or they don't
+const similarity = (field: DuplicateField, a: string, b: string) =>
+    field === "name" || field === "street" ? jaroWinkler(a, b) : a === b ? 1 : 0;
+
+// Weighted average over the fields both records have—a blank value is no evidence either way
+const scorePair = (a: NormalizedRecord, b: NormalizedRecord) => {
+    let total = 0;
+    let compared = 0;
+    const matchedOn: DuplicateField[] = [];
+
+    // "456 Elm St" in two different cities is two different addresses
+    const otherCity = Boolean(a.city && b.city && a.city !== b.city);
+
+    (Object.keys(FIELD_WEIGHTS) as DuplicateField[]).forEach((field) => {
+        if (!a[field] || !b[field]) return;
+        const fieldSimilarity = field === "street" && otherCity ? 0 : similarity(field, a[field], b[field]);
+        total += FIELD_WEIGHTS[field] * fieldSimilarity;
+        compared += FIELD_WEIGHTS[field];
+        if (fieldSimilarity >= MATCHED_SIMILARITY) matchedOn.push(field);
+    });
+
+    return { score: compared >= MIN_COMPARED_WEIGHT ? total / compared : 0, matchedOn };
+};
+
+// Only records sharing at least one of these keys get compared, so we're not scoring every pair in the dataset
+const blockingKeys = (record: NormalizedRecord) =>
+    [
+        record.email && `email:${record.email}`,
+        record.phone && `phone:${record.phone}`,
+        record.name && `name:${record.name}`,
+        record.street && `street:${record.street}|${record.city}`,
+    ].filter(Boolean) as string[];
+
+export const findDuplicates = (records: Record[]): DuplicateCluster[] => {
+    const normalized = records.map(normalize);
+
+    const blocks = new Map<string, number[]>();
+    normalized.forEach((record, index) => {
+        blockingKeys(record).forEach((key) => {
+            if (blocks.has(key)) blocks.get(key)!.push(index);
+            else blocks.set(key, [index]);
+        });
+    });
+
+    // Union-find over record indexes, so linked pairs collapse into clusters
+    const parent = records.map((_, index) => index);
+    const root = (index: number): number => (parent[index] === index ? index : (parent[index] = root(parent[index])));
+
+    const compared = new Set<string>();
+    const links: { a: number; b: number; score: number; matchedOn: DuplicateField[] }[] = [];
+    blocks.forEach((members) => {
+        if (members.length < 2 || members.length > MAX_BLOCK_SIZE) return;
+        for (let i = 0; i < members.length; i++) {
+            for (let j = i + 1; j < members.length; j++) {
+                const pairKey = `${members[i]}:${members[j]}`;
+                if (compared.has(pairKey)) continue;
+                compared.add(pairKey);
+
+                const { score, matchedOn } = scorePair(normalized[members[i]], normalized[members[j]]);
+                if (score < DUPLICATE_THRESHOLD || !CORROBORATING_FIELDS.some((field) => matchedOn.includes(field))) continue;
+                links.push({ a: members[i], b: members[j], score, matchedOn });
+                parent[root(members[i])] = root(members[j]);
+            }
+        }
+    });
+
+    const clusters = new Map<number, { members: Set<number>; score: number; matchedOn: DuplicateField[] | null }>();
+    links.forEach((link) => {
+        const key = root(link.a);
+        const cluster = clusters.get(key) || { members: new Set<number>(), score: 0, matchedOn: null };
+        cluster.members.add(link.a).add(link.b);
+        cluster.score = Math.max(cluster.score, link.score);
+        cluster.matchedOn = cluster.matchedOn ? cluster.matchedOn.filter((f) => link.matchedOn.includes(f)) : link.matchedOn;
+        clusters.set(key, cluster);
+    });
+
+    return Array.from(clusters.values())
+        .map((cluster) => ({
+            records: Array.from(cluster.members)
+                .sort((a, b) => records[a].id - records[b].id)
+                .map((index) => records[index]),
+            score: Math.round(cluster.score * 100) / 100,
+            matchedOn: cluster.matchedOn || [],
+        }))
+        .sort((a, b) => b.score - a.score || b.records.length - a.records.length);
+};
@@ -0,0 +1,45 @@
+/** @jest-environment node */
+// Syntax problems come one at a time, in the order a reviewer would fix them
+
+import { emailSyntaxProblem, isDisposableEmail, isRoleEmail } from "@/src/lib/email";
+
+describe("emailSyntaxProblem", () => {
+    it.each(["john.doe@example.com", "john+news@mail.example.co.uk", '"john smith"@example.com', "ops@[192.168.0.1]"])(
+        "accepts %s",
+        (address) => {
+            expect(emailSyntaxProblem(address)).toBeNull();
+        }
+    );
+
+    it.each([
+        ["", "missing"],
+        ["john.doe.example.com", "missing_at"],
+        ["@example.com", "empty_local_part"],
+        ["john@doe@example.com", "multiple_at"],
+        [`${"a".repeat(65)}@example.com`, "local_part_too_long"],
+        [`john@${"a".repeat(250)}.com`, "too_long"],
+        ["john..doe@example.com", "invalid_local_part"],
+        ["john doe@example.com", "invalid_local_part"],
+        ["john@-example.com", "invalid_domain"],
+        ["john@example", "invalid_tld"],
+        ["john@example.c0m", "invalid_tld"],
+    ])("flags %j as %s", (address, problem) => {
+        expect(emailSyntaxProblem(address)).toBe(problem);
+    });
+});
+
+describe("isDisposableEmail", () => {
+    it("matches the provider's domain and its subdomains, in any case", () => {
+        expect(isDisposableEmail("john@10minutemail.com")).toBe(true);
+        expect(isDisposableEmail("john@inbox.10MinuteMail.com")).toBe(true);
+        expect(isDisposableEmail("john@not10minutemail.com")).toBe(false);
+    });
+});
+
+describe("isRoleEmail", () => {
+    it("looks past plus-addressing", () => {
+        expect(isRoleEmail("billing@example.com")).toBe(true);
+        expect(isRoleEmail("Billing+eu@example.com")).toBe(true);
+        expect(isRoleEmail("bill@example.com")).toBe(false);
+    });
+});
@@ -0,0 +1,81 @@
+// lib/email.ts
+// Email checks, each with its own reason code. Syntax follows RFC 5321/5322 for the addresses people actually
+// use: a dot-atom or "quoted" local part, and a host name (or [IPv4] literal) for the domain. No comments, no IPv6.
+
+import { DISPOSABLE_DOMAINS, ROLE_LOCAL_PARTS } from "@/src/consts/emailDomains";
+
+export type EmailProblem =
+    | "missing"
+    | "missing_at"
+    | "multiple_at"
+    | "empty_local_part"
+    | "too_long"
+    | "local_part_too_long"
+    | "invalid_local_part"
+    | "invalid_domain"
+    | "invalid_tld"
+    | "domain_typo"
+    | "disposable"
+    | "role_address"
+    | "uppercase_domain";
+
+export const EMAIL_PROBLEM_MESSAGES: { [problem in EmailProblem]: string } = {
+    missing: "Email is missing",
+    missing_at: "Email has no @",
+    multiple_at: "Email has more than one @",
+    empty_local_part: "Email has nothing before the @",
+    too_long: "Email is longer than 254 characters",
+    local_part_too_long: "The part before the @ is longer than 64 characters",
+    invalid_local_part: "The part before the @ has spaces, stray dots or characters that aren't allowed",
+    invalid_domain: "Email domain isn't a valid host name",
+    invalid_tld: "Email domain doesn't end in a valid top-level domain (.com, .org...)",
+    domain_typo: "Email domain looks like a typo",
+    disposable: "Email is from a disposable inbox provider",
+    role_address: "Email is a role address (info@, noreply@...), not a person",
+    uppercase_domain: "Email domain should be lowercase",
+};
+
+// Unquoted local part: atext runs separated by single dots
+const DOT_ATOM_PATTERN = /^[a-z0-9!#$%&'*+/=?^_`{|}~-]+(?:\.[a-z0-9!#$%&'*+/=?^_`{|}~-]+)*$/i;
+// "john smith"@example.com—anything printable, with \ escaping " and \
+const QUOTED_LOCAL_PATTERN = /^"(?:[^"\\\r\n]|\\.)*"$/;
+// Host name label: letters, digits and inner hyphens, 63 characters at most
+const LABEL_PATTERN = /^[a-z0-9](?:[a-z0-9-]{0,61}[a-z0-9])?$/i;
+const TLD_PATTERN = /^[a-z]{2,63}$/i;
+const IPV4_LITERAL_PATTERN = /^\[(?:(?:25[0-5]|2[0-4]\d|1?\d?\d)\.){3}(?:25[0-5]|2[0-4]\d|1?\d?\d)\]$/;
+
+// The @ that splits an address—the last one, since a quoted local part may contain its own
+const splitAddress = (value: string) => {
+    const at = value.lastIndexOf("@");
+    return { local: value.slice(0, at), domain: value.slice(at + 1) };
+};
+
+// The first syntax problem with an address, or null when it's well-formed
+export const emailSyntaxProblem = (value: string): EmailProblem | null => {
+    if (!value) return "missing";
+    if (!value.includes("@")) return "missing_at";
+
+    const { local, domain } = splitAddress(value);
+    if (!local) return "empty_local_part";
+    if (local.includes("@") && !QUOTED_LOCAL_PATTERN.test(local)) return "multiple_at";
+    if (value.length > 254) return "too_long";
+    if (local.length > 64) return "local_part_too_long";
+    if (!DOT_ATOM_PATTERN.test(local) && !QUOTED_LOCAL_PATTERN.test(local)) return "invalid_local_part";
+
+    if (IPV4_LITERAL_PATTERN.test(domain)) return null;
+    const labels = domain.split(".");
+    if (domain.length > 253 || !labels.every((label) => LABEL_PATTERN.test(label))) return "invalid_domain";
+    if (labels.length < 2 || !TLD_PATTERN.test(labels[labels.length - 1])) return "invalid_tld";
+    return null;
+};
+
+export const isDisposableEmail = (value: string) => {
+    const domain = splitAddress(value).domain.toLowerCase();
+    return DISPOSABLE_DOMAINS.some((disposable) => domain === disposable || domain.endsWith(`.${disposable}`));
+};
+
+// info@, noreply@, and their plus-addressed cousins (support+eu@)
+export const isRoleEmail = (value: string) => {
+    const local = splitAddress(value).local.toLowerCase().split("+")[0];
+    return ROLE_LOCAL_PARTS.includes(local);
+};
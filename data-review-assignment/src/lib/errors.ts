@@ -0,0 +1,36 @@
+// lib/errors.ts
+// Reading a record's errors. Shared by the API and the table, so nothing server-only in here.
+
+import { SEVERITIES, Severity } from "@/src/consts/severities";
+import { Record, ValidatedField, ValidationError } from "@/src/types/record";
+
+export const fieldErrors = (record: Record, field: ValidatedField): ValidationError[] => record.errors?.[field] ?? [];
+
+// A cross-field error is listed under each of its fields, but it's still one problem—count it once
+export const allErrors = (record: Record): ValidationError[] =>
+    Object.values(record.errors || {})
+        .flat()
+        .filter((error, index, errors) => errors.findIndex((other) => other.code === error.code) === index);
+
+// Worst first—the validation engine keeps every field's list in this order
+export const bySeverity = (a: ValidationError, b: ValidationError) => SEVERITIES.indexOf(a.severity) - SEVERITIES.indexOf(b.severity);
+
+// Info notes are for the reviewer, not problems. A record with nothing else is clean—in the Severity facet,
+// the import summary and the dashboard alike.
+export const problemsIn = (errors: ValidationError[]) => errors.filter((error) => error.severity !== "info");
+
+export const isClean = (record: Record) => problemsIn(allErrors(record)).length === 0;
+
+// What colours a cell: the highest severity among the errors, if there are any
+export const worstSeverity = (errors: ValidationError[]): Severity | undefined =>
+    SEVERITIES.find((severity) => errors.some((error) => error.severity === severity));
+
+// How many points each error costs a record's quality score
+const SCORE_PENALTIES: { [severity in Severity]: number } = { blocker: 50, critical: 20, warning: 5, info: 1 };
+
+// 100 for a clean record, down to 0—one blocker halves it, five critical errors empty it
+export const qualityScore = (record: Record) =>
+    Math.max(0, 100 - allErrors(record).reduce((penalty, error) => penalty + SCORE_PENALTIES[error.severity], 0));
+
+// One line per error, for tooltips
+export const errorMessages = (errors: ValidationError[]) => errors.map((error) => error.message).join("\n");
@@ -0,0 +1,53 @@
+/** @jest-environment node */
+// Phone numbers the way they turn up in vendor files, and what parsePhone makes of them
+
+import { lettersToDigits, parsePhone } from "@/src/lib/phone";
+
+describe("parsePhone", () => {
+    it.each(["917-458-1154", "(917) 458-1154", "917.458.1154", "1-917-458-1154", "+1 917 458 1154", "011 1 917 458 1154"])(
+        "reads %s as a New York number",
+        (raw) => {
+            expect(parsePhone(raw)).toEqual({
+                e164: "+19174581154",
+                country: "US",
+                lineType: "fixed_or_mobile",
+                formatted: "917-458-1154",
+            });
+        }
+    );
+
+    it("tells Canada and toll-free numbers apart from the rest of North America", () => {
+        expect(parsePhone("416-555-0199")).toMatchObject({ country: "CA", e164: "+14165550199" });
+        expect(parsePhone("1-800-555-0100")).toMatchObject({ country: "US", lineType: "toll_free" });
+    });
+
+    it("keeps the extension on the formatted number", () => {
+        expect(parsePhone("917-458-1154 ext. 12")).toMatchObject({ extension: "12", formatted: "917-458-1154 x12" });
+        expect(parsePhone("917-458-1154 #7")).toMatchObject({ extension: "7", formatted: "917-458-1154 x7" });
+    });
+
+    it("drops the trunk prefix people keep on international numbers", () => {
+        expect(parsePhone("+44 (0)20 7946 0958")).toMatchObject({ e164: "+442079460958", country: "GB", lineType: "fixed_line" });
+        expect(parsePhone("0044 7700 900123")).toMatchObject({ e164: "+447700900123", country: "GB", lineType: "mobile" });
+    });
+
+    it.each([
+        ["", "missing"],
+        ["1-800-FLOWERS", "letters"],
+        ["458-1154", "too_short"],
+        ["917-458-11540", "too_long"],
+        ["117-458-1154", "bad_area_code"],
+        ["911-458-1154", "bad_area_code"],
+        ["917-058-1154", "bad_exchange"],
+        ["+999 1234 5678", "unknown_country_code"],
+        ["+44 20 7946", "too_short"],
+    ])("flags %j as %s", (raw, problem) => {
+        expect(parsePhone(raw)).toEqual({ problem });
+    });
+});
+
+describe("lettersToDigits", () => {
+    it("spells vanity numbers out on the keypad", () => {
+        expect(lettersToDigits("1-800-FLOWERS")).toBe("1-800-3569377");
+    });
+});
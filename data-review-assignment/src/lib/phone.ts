@@ -0,0 +1,120 @@
+// lib/phone.ts
+// Parses free-form phone numbers into E.164 (+19174581154), working out the country and—where the
+// numbering plan gives it away—the line type. Numbers without a "+" or "00" prefix are read as North American.
+
+import {
+    NANP_AREA_CODE_COUNTRIES,
+    NANP_PREMIUM_AREA_CODES,
+    NANP_TOLL_FREE_AREA_CODES,
+    PHONE_COUNTRIES,
+    PhoneLineType,
+} from "@/src/consts/phoneCountries";
+
+export type PhoneProblem =
+    | "missing"
+    | "letters"
+    | "too_short"
+    | "too_long"
+    | "bad_area_code"
+    | "bad_exchange"
+    | "unknown_country_code";
+
+export interface ParsedPhone {
+    problem?: PhoneProblem; // Set when the number can't be normalized; everything below is unset then
+    e164?: string;
+    country?: string;
+    lineType?: PhoneLineType;
+    formatted?: string; // The house format: 917-458-1154 for North America, E.164 for everything else
+    extension?: string;
+}
+
+export const PHONE_PROBLEM_MESSAGES: { [problem in PhoneProblem]: string } = {
+    missing: "Phone number is missing",
+    letters: "Phone number contains letters",
+    too_short: "Phone number is too short",
+    too_long: "Phone number is too long",
+    bad_area_code: "Phone number has an invalid area code",
+    bad_exchange: "Phone number has an invalid exchange",
+    unknown_country_code: "Phone number has an unknown country code",
+};
+
+// "x123", "ext. 123" or "#123" at the end of a number
+const EXTENSION_PATTERN = /\s*(?:ext\.?|extension|x|#)\s*(\d{1,6})$/i;
+
+const KEYPAD: { [letter: string]: string } = {
+    a: "2", b: "2", c: "2", d: "3", e: "3", f: "3", g: "4", h: "4", i: "4", j: "5", k: "5", l: "5",
+    m: "6", n: "6", o: "6", p: "7", q: "7", r: "7", s: "7", t: "8", u: "8", v: "8", w: "9", x: "9", y: "9", z: "9",
+};
+
+// Vanity numbers: 1-800-FLOWERS -> 1-800-3569377
+export const lettersToDigits = (value: string) => value.replace(/[a-z]/gi, (letter) => KEYPAD[letter.toLowerCase()]);
+
+// 10 digits after the country code. Area codes and exchanges can't start with 0/1, and N11 codes (411, 911...) are services.
+const parseNanp = (digits: string): ParsedPhone => {
+    if (digits.length < 10) return { problem: "too_short" };
+    if (digits.length > 10) return { problem: "too_long" };
+
+    const areaCode = digits.slice(0, 3);
+    const exchange = digits.slice(3, 6);
+    if (/^[01]/.test(areaCode) || /^\d11$/.test(areaCode)) return { problem: "bad_area_code" };
+    if (/^[01]/.test(exchange) || /^\d11$/.test(exchange)) return { problem: "bad_exchange" };
+
+    let lineType: PhoneLineType = "fixed_or_mobile"; // NANP doesn't separate mobiles from landlines
+    if (NANP_TOLL_FREE_AREA_CODES.includes(areaCode)) lineType = "toll_free";
+    else if (NANP_PREMIUM_AREA_CODES.includes(areaCode)) lineType = "premium";
+
+    return {
+        e164: `+1${digits}`,
+        country: NANP_AREA_CODE_COUNTRIES[areaCode] || "US",
+        lineType,
+        formatted: `${areaCode}-${exchange}-${digits.slice(6)}`,
+    };
+};
+
+// Everything after the "+": find the calling code (longest match wins), then check the national number's length
+const parseInternational = (digits: string): ParsedPhone => {
+    if (digits.startsWith("1")) return parseNanp(digits.slice(1));
+
+    const country = PHONE_COUNTRIES.filter((c) => digits.startsWith(c.callingCode)).sort(
+        (a, b) => b.callingCode.length - a.callingCode.length
+    )[0];
+    if (!country) return { problem: digits.length < 4 ? "too_short" : "unknown_country_code" };
+
+    let national = digits.slice(country.callingCode.length);
+    // People often keep the trunk prefix: +44 (0)20 7946 0958
+    if (country.trunkPrefix && national.startsWith(country.trunkPrefix)) national = national.slice(country.trunkPrefix.length);
+
+    if (national.length < Math.min(...country.nationalLengths)) return { problem: "too_short" };
+    if (national.length > Math.max(...country.nationalLengths)) return { problem: "too_long" };
+    if (!country.nationalLengths.includes(national.length)) return { problem: "too_short" };
+
+    const e164 = `+${country.callingCode}${national}`;
+    return {
+        e164,
+        country: country.country,
+        lineType: country.mobilePattern ? (country.mobilePattern.test(national) ? "mobile" : "fixed_line") : "fixed_or_mobile",
+        formatted: e164,
+    };
+};
+
+export const parsePhone = (raw: string): ParsedPhone => {
+    let value = raw.trim();
+    if (!value) return { problem: "missing" };
+
+    const extensionMatch = value.match(EXTENSION_PATTERN);
+    const extension = extensionMatch?.[1];
+    if (extensionMatch) value = value.slice(0, extensionMatch.index);
+
+    if (/[a-z]/i.test(value)) return { problem: "letters" };
+
+    const digits = value.replace(/\D/g, "");
+    let parsed: ParsedPhone;
+    if (value.startsWith("+")) parsed = parseInternational(digits);
+    else if (digits.startsWith("00")) parsed = parseInternational(digits.slice(2)); // European-style international prefix
+    else if (digits.startsWith("011")) parsed = parseInternational(digits.slice(3)); // ...and the North American one
+    else parsed = parseNanp(digits.length === 11 && digits.startsWith("1") ? digits.slice(1) : digits); // National, maybe with the leading 1
+
+    // Keep the extension on the formatted value so accepting a reformat never loses it
+    if (parsed.problem || !extension) return parsed;
+    return { ...parsed, extension, formatted: `${parsed.formatted} x${extension}` };
+};
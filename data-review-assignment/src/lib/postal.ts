@@ -0,0 +1,32 @@
+// lib/postal.ts
+// Lookups against the offline ZIP reference in consts/zipCodes.ts
+
+import { CITY_ZIPCODES, CityZipcodes, UNASSIGNED_ZIP3, ZIP3_STATES } from "@/src/consts/zipCodes";
+
+export interface ZipcodeLocation {
+    state: string;
+    city?: string; // Only set for ZIPs in one of the cities we have ranges for
+}
+
+const inRange = (zip5: string, [from, to]: [string, string]) => zip5 >= from && zip5 <= to;
+
+// Matches the way people actually type city names: "new york", "New  York ", "NEW YORK"
+export const findCity = (city: string): CityZipcodes | undefined => {
+    const wanted = city.trim().replace(/\s+/g, " ").toLowerCase();
+    return CITY_ZIPCODES.find((entry) => entry.city.toLowerCase() === wanted);
+};
+
+export const cityHasZipcode = (city: CityZipcodes, zipcode: string) =>
+    city.ranges.some((range) => inRange(zipcode.slice(0, 5), range));
+
+// Where a (well-formed) ZIP or ZIP+4 is, or null when no such ZIP can exist
+export const locateZipcode = (zipcode: string): ZipcodeLocation | null => {
+    const zip3 = zipcode.slice(0, 3);
+    if (UNASSIGNED_ZIP3.includes(zip3)) return null;
+
+    const stateRange = ZIP3_STATES.find(([from, to]) => zip3 >= from && zip3 <= to);
+    if (!stateRange) return null;
+
+    const city = CITY_ZIPCODES.find((entry) => cityHasZipcode(entry, zipcode));
+    return city ? { state: city.state, city: city.city } : { state: stateRange[2] };
+};
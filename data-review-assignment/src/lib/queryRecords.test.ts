@@ -0,0 +1,47 @@
+/** @jest-environment node */
+// Facet counts answer "how many records if this were the facet's only selection", given every other facet
+
+import { queryRecords } from "@/src/lib/queryRecords";
+import { DEFAULT_TABLE_QUERY, FacetSelection } from "@/src/lib/tableQuery";
+import { Record, ValidationError } from "@/src/types/record";
+
+const error = (severity: ValidationError["severity"]): ValidationError[] => [{ code: `x.${severity}`, message: severity, severity }];
+
+const records: Record[] = [
+    { id: 1, name: "A", email: "a@example.com", city: "Houston", status: "active", errors: { phone: error("critical") } },
+    { id: 2, name: "B", email: "b@example.com", city: "Houston", status: "pending", errors: { email: error("warning") } },
+    { id: 3, name: "C", email: "c@example.com", city: "Dallas", status: "active", errors: { phone: error("warning"), email: error("info") } },
+    { id: 4, name: "D", email: "d@example.com", city: "Dallas", status: "pending", errors: {} },
+];
+
+const counts = (facets: Partial<FacetSelection>) => {
+    const result = queryRecords(records, { ...DEFAULT_TABLE_QUERY, facets: { ...DEFAULT_TABLE_QUERY.facets, ...facets } });
+    return Object.fromEntries(
+        Object.entries(result.facets).map(([facet, values]) => [facet, Object.fromEntries(values.map(({ value, count }) => [value, count]))])
+    );
+};
+
+describe("queryRecords facet counts", () => {
+    it("counts every value when nothing is selected", () => {
+        expect(counts({})).toMatchObject({
+            status: { active: 2, pending: 2 },
+            city: { Dallas: 2, Houston: 2 },
+            severity: { blocker: 0, critical: 1, warning: 2, info: 0, clean: 1 },
+            errorField: { email: 2, phone: 2, name: 0 },
+        });
+    });
+
+    it("applies the other facets but not the facet's own selection", () => {
+        expect(counts({ status: ["active"] })).toMatchObject({
+            status: { active: 2, pending: 2 },
+            city: { Dallas: 1, Houston: 1 },
+            severity: { critical: 1, warning: 1, clean: 0 },
+        });
+    });
+
+    it("scopes severity to the selected error fields, and each error field to the selected severity", () => {
+        // Record 3's worst email error is an info note, so within email it's clean
+        expect(counts({ errorField: ["email"] }).severity).toMatchObject({ warning: 1, info: 1, clean: 1 });
+        expect(counts({ severity: ["warning"] }).errorField).toMatchObject({ email: 1, phone: 1 });
+    });
+});
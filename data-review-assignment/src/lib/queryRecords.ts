@@ -0,0 +1,146 @@
+// lib/queryRecords.ts
+// Filtering, sorting and paging happen here on the server so the browser only ever holds one page
+
+import { VALIDATED_FIELDS } from "@/src/consts/fields";
+import { REVIEW_STATES } from "@/src/consts/review";
+import { allErrors, fieldErrors, problemsIn, worstSeverity } from "@/src/lib/errors";
+import { countReviewStates, reviewStateOf } from "@/src/lib/review";
+import { PaginatedRecords, Record, ValidatedField } from "@/src/types/record";
+import { buildSearchIndex, matchesSearch, parseSearch } from "@/src/lib/search";
+import { FACETS, Facet, FacetCounts, FacetSelection, SEVERITY_FACET_VALUES, SortSpec, TableQuery } from "@/src/lib/tableQuery";
+
+const normalize = (value: unknown) => (value === undefined || value === null ? "" : String(value).toLowerCase());
+
+const matchesFilters = (record: Record, filters: TableQuery["filters"]) =>
+    Object.entries(filters).every(([field, value]) => {
+        if (!value) return true;
+        return normalize(record[field as keyof Record]).includes(value.toLowerCase());
+    });
+
+// Which Severity facet values a record matches across the given fields: its worst severity, plus "clean" when
+// there's nothing worse than info notes (see isClean in lib/errors.ts)—so an info-only record is both
+const recordSeverities = (record: Record, fields: string[]): string[] => {
+    const scoped = fields.length > 0 ? fields : VALIDATED_FIELDS;
+    const errors = scoped.flatMap((field) => fieldErrors(record, field as ValidatedField));
+    const worst = worstSeverity(errors);
+    const clean = problemsIn(errors).length === 0;
+    return [...(worst ? [worst] : []), ...(clean ? ["clean"] : [])];
+};
+
+const severitySelected = (facets: FacetSelection, severities: string[]) =>
+    facets.severity.length === 0 || severities.some((value) => facets.severity.includes(value));
+
+// Whether a record passes each facet on its own, so the counts below can leave one facet out at a time
+const facetMatches = (record: Record, facets: FacetSelection, severities: string[]): { [facet in Facet]: boolean } => ({
+    status: facets.status.length === 0 || facets.status.includes(record.status),
+    review: facets.review.length === 0 || facets.review.includes(reviewStateOf(record)),
+    city: facets.city.length === 0 || facets.city.includes(record.city || ""),
+    errorField: facets.errorField.length === 0 || facets.errorField.some((field) => record.errors?.[field as ValidatedField]),
+    severity: severitySelected(facets, severities),
+});
+
+const matchesFacets = (record: Record, facets: FacetSelection) => {
+    const matches = facetMatches(record, facets, recordSeverities(record, facets.errorField));
+    return FACETS.every((facet) => matches[facet]);
+};
+
+// Each value's count is "how many records would match if this were the facet's only selection", so counts
+// respond to every other filter but don't collapse to zero for values you haven't picked yet. One pass over
+// the records: each one counts towards its own value of every facet whose other facets it passes.
+const countFacets = (allRecords: Record[], searched: Record[], facets: FacetSelection): FacetCounts => {
+    const candidates: { [facet in Facet]: string[] } = {
+        status: Array.from(new Set(allRecords.map((record) => record.status))).sort(),
+        review: [...REVIEW_STATES],
+        city: Array.from(new Set(allRecords.map((record) => record.city || ""))).filter(Boolean).sort(),
+        severity: [...SEVERITY_FACET_VALUES],
+        errorField: VALIDATED_FIELDS,
+    };
+
+    const tallies = Object.fromEntries(
+        FACETS.map((facet) => [facet, new Map(candidates[facet].map((value) => [value, 0]))])
+    ) as { [facet in Facet]: Map<string, number> };
+    const bump = (facet: Facet, value: string) => {
+        const count = tallies[facet].get(value);
+        if (count !== undefined) tallies[facet].set(value, count + 1);
+    };
+    searched.forEach((record) => {
+        const severities = recordSeverities(record, facets.errorField);
+        const matches = facetMatches(record, facets, severities);
+        const passesAllBut = (...skipped: Facet[]) => FACETS.every((facet) => skipped.includes(facet) || matches[facet]);
+
+        if (passesAllBut("status")) bump("status", record.status);
+        if (passesAllBut("review")) bump("review", reviewStateOf(record));
+        if (passesAllBut("city")) bump("city", record.city || "");
+        if (passesAllBut("severity")) severities.forEach((value) => bump("severity", value));
+        // Picking an error field also scopes the severity facet to it, so severity is rechecked per field
+        if (passesAllBut("errorField", "severity")) {
+            VALIDATED_FIELDS.forEach((field) => {
+                if (record.errors?.[field] && severitySelected(facets, recordSeverities(record, [field]))) bump("errorField", field);
+            });
+        }
+    });
+
+    return Object.fromEntries(
+        FACETS.map((facet) => [facet, candidates[facet].map((value) => ({ value, count: tallies[facet].get(value) || 0 }))])
+    ) as FacetCounts;
+};
+
+// Each level outweighs any number of the one below, so 1 critical sorts below 0 critical + 3 warnings
+const SEVERITY_WEIGHTS = { blocker: 1e9, critical: 1e6, warning: 1e3, info: 1 };
+const severityScore = (record: Record) =>
+    allErrors(record).reduce((score, error) => score + SEVERITY_WEIGHTS[error.severity], 0);
+
+const compareBy = ({ field, order }: SortSpec) => (a: Record, b: Record) => {
+    const direction = order === "desc" ? -1 : 1;
+    if (field === "id") return (a.id - b.id) * direction;
+    if (field === "severity") return (severityScore(a) - severityScore(b)) * direction;
+    if (field === "score") return ((a.score ?? 100) - (b.score ?? 100)) * direction;
+    if (field === "review") {
+        return (REVIEW_STATES.indexOf(reviewStateOf(a)) - REVIEW_STATES.indexOf(reviewStateOf(b))) * direction;
+    }
+
+    const left = normalize(a[field]);
+    const right = normalize(b[field]);
+    // Empty values always go to the bottom, no matter the direction—nobody wants to page past blanks
+    if (!left && right) return 1;
+    if (left && !right) return -1;
+    return left.localeCompare(right) * direction;
+};
+
+// Walk the sort specs in priority order and fall back to id so the order is always stable
+const compareAll = (sort: SortSpec[]) => {
+    const comparators = sort.map(compareBy);
+    return (a: Record, b: Record) => {
+        for (const compare of comparators) {
+            const result = compare(a, b);
+            if (result !== 0) return result;
+        }
+        return a.id - b.id;
+    };
+};
+
+export const queryRecords = (records: Record[], query: TableQuery): PaginatedRecords => {
+    const terms = parseSearch(query.search);
+    const searched = records.filter(
+        (record) => matchesSearch(buildSearchIndex(record), terms) && matchesFilters(record, query.filters)
+    );
+    const matching = searched.filter((record) => matchesFacets(record, query.facets));
+
+    if (query.sort.length > 0) matching.sort(compareAll(query.sort));
+
+    const total = matching.length;
+    const pageSize = query.pageSize === "all" ? Math.max(total, 1) : query.pageSize;
+    const pageCount = Math.max(Math.ceil(total / pageSize), 1);
+    const page = Math.min(query.page, pageCount); // Clamp so a stale page number never returns an empty table
+    const start = (page - 1) * pageSize;
+
+    return {
+        records: matching.slice(start, start + pageSize),
+        total,
+        page,
+        pageSize,
+        pageCount,
+        facets: countFacets(records, searched, query.facets),
+        reviewProgress: countReviewStates(records),
+    };
+};
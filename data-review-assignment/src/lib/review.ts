@@ -0,0 +1,60 @@
+// lib/review.ts
+// The review state machine: which moves are allowed, and what a record's errors mean for approving it—
+// blockers rule it out, critical errors need an override reason
+
+import { REVIEW_STATE_LABELS, REVIEW_STATES, REVIEW_TRANSITIONS, ReviewState } from "@/src/consts/review";
+import { Severity } from "@/src/consts/severities";
+import { allErrors } from "@/src/lib/errors";
+import { RecordChanges } from "@/src/lib/store/types";
+import { Record, ReviewCounts } from "@/src/types/record";
+
+export const reviewStateOf = (record: Record): ReviewState => record.reviewState ?? "unreviewed";
+
+const hasErrorsOf = (record: Record, severity: Severity) =>
+    allErrors(record).some((error) => error.severity === severity);
+
+export const hasBlockers = (record: Record) => hasErrorsOf(record, "blocker");
+export const hasCriticalErrors = (record: Record) => hasErrorsOf(record, "critical");
+
+// Why a record can't move to `to`, or null when it can. Expects a validated record (errors filled in).
+export const checkReviewTransition = (record: Record, to: ReviewState, overrideReason?: string): string | null => {
+    if (record.mergedInto !== undefined) {
+        return `Record was merged into record ${record.mergedInto}—review that one instead`;
+    }
+    const from = reviewStateOf(record);
+    if (!REVIEW_TRANSITIONS[from].includes(to)) {
+        return `Can't move a record from ${REVIEW_STATE_LABELS[from]} to ${REVIEW_STATE_LABELS[to]}`;
+    }
+    if (to === "approved" && hasBlockers(record)) {
+        return "Record has blocker errors—fix them before approving";
+    }
+    if (to === "approved" && hasCriticalErrors(record) && !overrideReason?.trim()) {
+        return "Record has critical errors—give an override reason to approve it anyway";
+    }
+    return null;
+};
+
+// Who moved it and when go on the record; the full trail is in the audit log
+export const reviewChanges = (to: ReviewState, user: string, overrideReason?: string): RecordChanges => ({
+    reviewState: to,
+    reviewedBy: user,
+    reviewedAt: new Date().toISOString(),
+    overrideReason: to === "approved" && overrideReason?.trim() ? overrideReason.trim() : undefined,
+});
+
+// An approval only covers the errors it was given with. When a change brings in a new blocker or critical error,
+// the record has to go back to in review—callers add reviewChanges("in_review") to the same update as the change,
+// so the audit log shows who reopened it. `before` and `after` are the record validated either side of the change.
+export const breaksApproval = (before: Record, after: Record) => {
+    if (reviewStateOf(before) !== "approved") return false;
+    const known = new Set(allErrors(before).map((error) => error.code));
+    return allErrors(after).some(
+        (error) => (error.severity === "blocker" || error.severity === "critical") && !known.has(error.code)
+    );
+};
+
+export const countReviewStates = (records: Record[]): ReviewCounts => {
+    const counts = Object.fromEntries(REVIEW_STATES.map((state) => [state, 0])) as ReviewCounts;
+    records.forEach((record) => counts[reviewStateOf(record)]++);
+    return counts;
+};
@@ -0,0 +1,25 @@
+// lib/reviewer.ts
+// Who's making a change. There's no login yet, so the client says who it is in a header and we take its word for it.
+
+import type { NextApiRequest } from "next";
+
+export const REVIEWER_HEADER = "X-Reviewer";
+export const ANONYMOUS_REVIEWER = "anonymous";
+
+// Header values have to be ISO-8859-1—the browser throws on "Łukasz" or "张伟"—so the name travels URI-encoded
+export const encodeReviewer = (name: string) => encodeURIComponent(name.trim());
+
+const decodeReviewer = (value: string) => {
+    try {
+        return decodeURIComponent(value);
+    } catch {
+        return value; // A stray "%" from a hand-written request—take it as typed
+    }
+};
+
+export const getReviewer = (req: NextApiRequest) => {
+    const header = req.headers[REVIEWER_HEADER.toLowerCase()];
+    const value = Array.isArray(header) ? header[0] : header;
+    const name = value ? decodeReviewer(value).trim() : "";
+    return name || ANONYMOUS_REVIEWER;
+};
@@ -0,0 +1,127 @@
+/** @jest-environment node */
+// Rule files are read from RULES_PATH, so each test writes the files it needs into a temp directory
+
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+
+let rulesDir: string;
+let rules: typeof import("@/src/lib/rules");
+
+const writeRuleSet = (id: string, contents: unknown) =>
+    fs.writeFile(path.join(rulesDir, `${id}.json`), typeof contents === "string" ? contents : JSON.stringify(contents));
+
+beforeAll(async () => {
+    rulesDir = await fs.mkdtemp(path.join(os.tmpdir(), "rules-"));
+    process.env.RULES_PATH = rulesDir; // Read when lib/rules.ts loads, hence the import after it
+    rules = await import("@/src/lib/rules");
+});
+
+afterAll(async () => {
+    await fs.rm(rulesDir, { recursive: true, force: true });
+    delete process.env.RULES_PATH;
+});
+
+describe("loadRuleSet", () => {
+    it("loads a rule file, named after its id when it has no name", async () => {
+        await writeRuleSet("plain", {
+            rules: [{ id: "email.missing", field: "email", type: "required", message: "Email is missing", severity: "critical" }],
+        });
+
+        expect(await rules.loadRuleSet("plain")).toEqual({
+            id: "plain",
+            name: "plain",
+            description: undefined,
+            rules: [{ id: "email.missing", field: "email", type: "required", message: "Email is missing", severity: "critical" }],
+        });
+    });
+
+    it("reads the older otherField cross-field rules as fields and when", async () => {
+        await writeRuleSet("legacy", {
+            rules: [
+                {
+                    id: "zip.with.street",
+                    type: "cross-field",
+                    field: "zipcode",
+                    otherField: "street",
+                    message: "{otherField} needs a zipcode",
+                    severity: "warning",
+                },
+                {
+                    id: "phone.if.active",
+                    type: "cross-field",
+                    field: "phone",
+                    otherField: "status",
+                    equals: "active",
+                    message: "{otherField} is {equals}, so phone is required",
+                    severity: "critical",
+                },
+            ],
+        });
+
+        const [street, active] = (await rules.loadRuleSet("legacy")).rules;
+        expect(street).toMatchObject({ fields: ["zipcode"], require: "all", when: [{ field: "street" }], message: "street needs a zipcode" });
+        expect(active).toMatchObject({
+            fields: ["phone"],
+            require: "all",
+            when: [{ field: "status", equals: "active" }],
+            message: "status is active, so phone is required",
+        });
+        expect(active).not.toHaveProperty("otherField");
+    });
+
+    it.each([
+        [
+            "mixes both cross-field forms",
+            {
+                rules: [
+                    { id: "r", type: "cross-field", field: "zipcode", otherField: "street", fields: ["zipcode"], require: "all", message: "m", severity: "warning" },
+                ],
+            },
+            "rules[0]: use either fields and when, or the older field and otherField—not both",
+        ],
+        [
+            "has a broken pattern",
+            { rules: [{ id: "r", field: "name", type: "regex", pattern: "(", message: "m", severity: "warning" }] },
+            "rules[0]: pattern ( isn't a valid regular expression",
+        ],
+        [
+            "uses an id twice",
+            { rules: [1, 2].map(() => ({ id: "r", field: "name", type: "required", message: "m", severity: "warning" })) },
+            "rules[1]: id r is used twice",
+        ],
+        [
+            "has an unknown severity",
+            { rules: [{ id: "r", field: "name", type: "required", message: "m", severity: "fatal" }] },
+            "rules[0]: severity must be one of blocker, critical, warning, info",
+        ],
+        ["isn't JSON", "{ rules: [", "isn't valid JSON"],
+    ])("fails loudly when the file %s", async (_, contents, reason) => {
+        await writeRuleSet("broken", contents);
+
+        const error = await rules.loadRuleSet("broken").catch((err) => err);
+        expect(error).toBeInstanceOf(rules.RuleSetError);
+        expect(error.message).toBe(`Rule set "broken" can't be loaded: ${reason}`);
+    });
+
+    it("won't read outside the rules directory", async () => {
+        await expect(rules.loadRuleSet("../store")).rejects.toThrow("isn't a valid rule set id");
+        await expect(rules.loadRuleSet("nowhere")).rejects.toThrow("no such rule set");
+    });
+});
+
+describe("listRuleSets", () => {
+    it("puts Default first and lists the files that don't parse separately", async () => {
+        await fs.rm(rulesDir, { recursive: true, force: true });
+        await fs.mkdir(rulesDir);
+        // The rule files that ship with the app have to load too
+        for (const file of ["default.json", "strict.json"]) {
+            await fs.copyFile(path.join(process.cwd(), "rules", file), path.join(rulesDir, file));
+        }
+        await writeRuleSet("broken", { rules: "none" });
+
+        const { ruleSets, invalid } = await rules.listRuleSets();
+        expect(ruleSets.map((ruleSet) => ruleSet.id)).toEqual(["default", "strict"]);
+        expect(invalid).toEqual([{ id: "broken", error: "rules must be an array" }]);
+    });
+});
@@ -0,0 +1,237 @@
+// lib/rules.ts
+// Loads the rule files in rules/ (one per rule set) and works out which set applies to a record.
+// Files are read on every request, so an edited rule takes effect straight away—no restart, no deploy.
+
+import { promises as fs } from "fs";
+import path from "path";
+import { DEFAULT_RULE_SET_ID } from "@/src/consts/datasets";
+import { VALIDATED_FIELDS } from "@/src/consts/fields";
+import { SEVERITIES, Severity } from "@/src/consts/severities";
+import { getRepository } from "@/src/lib/store";
+import { withValidation } from "@/src/lib/validation";
+import { Record, ValidatedField } from "@/src/types/record";
+import { NextApiHandler } from "next";
+import {
+    CROSS_FIELD_REQUIREMENTS,
+    CrossFieldRequirement,
+    CrossFieldRule,
+    RULE_CHECKS,
+    RULE_FIXES,
+    RULE_TYPES,
+    Rule,
+    RuleCheck,
+    RuleFix,
+    RuleSet,
+    RuleSetList,
+    RuleType,
+} from "@/src/types/rules";
+
+// RULES_PATH lets deploys keep customer rule files outside the app
+const RULES_DIR = process.env.RULES_PATH || path.join(process.cwd(), "rules");
+
+// Rule set ids double as file names, so keep them to something that can't walk out of the directory
+const RULE_SET_ID_PATTERN = /^[a-z0-9_-]+$/i;
+
+export const isRuleSetId = (id: string) => RULE_SET_ID_PATTERN.test(id);
+
+const isValidatedField = (field: unknown) => VALIDATED_FIELDS.includes(field as ValidatedField);
+
+// A cross-field rule's `when`: a list of { field, equals? }
+const isConditionList = (when: unknown) =>
+    Array.isArray(when) &&
+    when.every(
+        (condition) =>
+            condition &&
+            typeof condition === "object" &&
+            isValidatedField(condition.field) &&
+            (condition.equals === undefined || typeof condition.equals === "string")
+    );
+
+// The first version of cross-field rules: `field` is required whenever `otherField` is filled in (or, with `equals`,
+// has that value). Rule files written then still load—they're read as the one-field, one-condition case of the
+// current form, with {otherField} and {equals} in the message filled in up front.
+const convertOtherFieldRule = (rule: { [key: string]: unknown }): { rule: CrossFieldRule } | { error: string } => {
+    if (rule.fields !== undefined) return { error: "use either fields and when, or the older field and otherField—not both" };
+    if (!isValidatedField(rule.field)) return { error: `field must be one of ${VALIDATED_FIELDS.join(", ")}` };
+    if (!isValidatedField(rule.otherField)) return { error: `otherField must be one of ${VALIDATED_FIELDS.join(", ")}` };
+    if (rule.equals !== undefined && typeof rule.equals !== "string") return { error: "equals must be a string" };
+
+    const { otherField, equals } = rule as { otherField: ValidatedField; equals?: string };
+    const message = (rule.message as string).replace(/\{otherField\}/g, otherField).replace(/\{equals\}/g, equals ?? "");
+    return {
+        rule: {
+            id: rule.id as string,
+            type: "cross-field",
+            fields: [rule.field as ValidatedField],
+            require: "all",
+            when: [equals === undefined ? { field: otherField } : { field: otherField, equals }],
+            message,
+            severity: rule.severity as Severity,
+        },
+    };
+};
+
+// Checks one entry of the "rules" array, the same way API routes check request bodies
+const parseRule = (raw: unknown): { rule: Rule } | { error: string } => {
+    if (!raw || typeof raw !== "object" || Array.isArray(raw)) return { error: "must be an object" };
+    const rule = raw as { [key: string]: unknown };
+
+    if (typeof rule.id !== "string" || !rule.id) return { error: "id is required" };
+    if (!RULE_TYPES.includes(rule.type as RuleType)) return { error: `type must be one of ${RULE_TYPES.join(", ")}` };
+    // Cross-field rules name their fields in `fields` instead
+    if (rule.type !== "cross-field" && !isValidatedField(rule.field)) {
+        return { error: `field must be one of ${VALIDATED_FIELDS.join(", ")}` };
+    }
+
+    // Checks can supply their own message and severity; every other rule type has to
+    const isCheck = rule.type === "check";
+    if (!(isCheck && rule.message === undefined) && (typeof rule.message !== "string" || !rule.message)) {
+        return { error: "message is required" };
+    }
+    if (!(isCheck && rule.severity === undefined) && !SEVERITIES.includes(rule.severity as Severity)) {
+        return { error: `severity must be one of ${SEVERITIES.join(", ")}` };
+    }
+
+    switch (rule.type) {
+        case "regex":
+            if (typeof rule.pattern !== "string") return { error: "pattern is required" };
+            try {
+                new RegExp(rule.pattern, typeof rule.flags === "string" ? rule.flags : undefined);
+            } catch {
+                return { error: `pattern ${rule.pattern} isn't a valid regular expression` };
+            }
+            if (rule.negate !== undefined && typeof rule.negate !== "boolean") return { error: "negate must be true or false" };
+            if (rule.fix !== undefined && !RULE_FIXES.includes(rule.fix as RuleFix)) {
+                return { error: `fix must be one of ${RULE_FIXES.join(", ")}` };
+            }
+            break;
+        case "length":
+            if (rule.min === undefined && rule.max === undefined) return { error: "min or max is required" };
+            if ([rule.min, rule.max].some((bound) => bound !== undefined && !Number.isInteger(bound))) {
+                return { error: "min and max must be whole numbers" };
+            }
+            break;
+        case "lookup":
+            if (!Array.isArray(rule.values) || !rule.values.every((value) => typeof value === "string")) {
+                return { error: "values must be an array of strings" };
+            }
+            break;
+        case "cross-field":
+            if (rule.otherField !== undefined) return convertOtherFieldRule(rule);
+            if (!Array.isArray(rule.fields) || rule.fields.length === 0 || !rule.fields.every(isValidatedField)) {
+                return { error: `fields must be a non-empty array of ${VALIDATED_FIELDS.join(", ")}` };
+            }
+            if (!CROSS_FIELD_REQUIREMENTS.includes(rule.require as CrossFieldRequirement)) {
+                return { error: `require must be one of ${CROSS_FIELD_REQUIREMENTS.join(", ")}` };
+            }
+            if (rule.when !== undefined && !isConditionList(rule.when)) {
+                return { error: `when must be an array of { field, equals? } with field one of ${VALIDATED_FIELDS.join(", ")}` };
+            }
+            break;
+        case "check":
+            if (!RULE_CHECKS.includes(rule.check as RuleCheck)) return { error: `check must be one of ${RULE_CHECKS.join(", ")}` };
+            break;
+    }
+
+    return { rule: rule as unknown as Rule };
+};
+
+const parseRuleSet = (id: string, raw: unknown): { ruleSet: RuleSet } | { error: string } => {
+    if (!raw || typeof raw !== "object" || Array.isArray(raw)) return { error: "must be a JSON object" };
+    const { name, description, rules } = raw as { name?: unknown; description?: unknown; rules?: unknown };
+    if (!Array.isArray(rules)) return { error: "rules must be an array" };
+
+    const parsed: Rule[] = [];
+    const seen = new Set<string>();
+    for (let index = 0; index < rules.length; index++) {
+        const result = parseRule(rules[index]);
+        if ("error" in result) return { error: `rules[${index}]: ${result.error}` };
+        if (seen.has(result.rule.id)) return { error: `rules[${index}]: id ${result.rule.id} is used twice` };
+        seen.add(result.rule.id);
+        parsed.push(result.rule);
+    }
+
+    return {
+        ruleSet: {
+            id,
+            name: typeof name === "string" && name ? name : id,
+            description: typeof description === "string" ? description : undefined,
+            rules: parsed,
+        },
+    };
+};
+
+const readRuleSet = async (id: string): Promise<{ ruleSet: RuleSet } | { error: string }> => {
+    let contents: string;
+    try {
+        contents = await fs.readFile(path.join(RULES_DIR, `${id}.json`), "utf8");
+    } catch (err) {
+        if ((err as NodeJS.ErrnoException).code === "ENOENT") return { error: "no such rule set" };
+        throw err;
+    }
+    try {
+        return parseRuleSet(id, JSON.parse(contents));
+    } catch {
+        return { error: "isn't valid JSON" };
+    }
+};
+
+// Thrown when a dataset's rule file is missing or broken—see withRuleSetErrors
+export class RuleSetError extends Error {
+    constructor(readonly ruleSetId: string, readonly reason: string) {
+        super(`Rule set "${ruleSetId}" can't be loaded: ${reason}`);
+        this.name = "RuleSetError";
+    }
+}
+
+// A broken rule file should fail loudly—validating against half a rule set would quietly pass bad records
+export const loadRuleSet = async (id: string): Promise<RuleSet> => {
+    const result = isRuleSetId(id) ? await readRuleSet(id) : { error: "isn't a valid rule set id" };
+    if ("error" in result) throw new RuleSetError(id, result.error);
+    return result.ruleSet;
+};
+
+// Wraps an API route that validates records, so a broken rule file comes back as a 500 with the usual { error }
+// naming the file and what's wrong with it, rather than Next's bare error page
+export const withRuleSetErrors =
+    (handler: NextApiHandler): NextApiHandler =>
+    async (req, res) => {
+        try {
+            return await handler(req, res);
+        } catch (err) {
+            if (!(err instanceof RuleSetError)) throw err;
+            console.error(err);
+            res.status(500).json({ error: err.message });
+        }
+    };
+
+// Every file in rules/, with the ones that don't parse listed separately so the rules page can point them out
+export const listRuleSets = async (): Promise<RuleSetList> => {
+    const files = (await fs.readdir(RULES_DIR)).filter((file) => file.endsWith(".json")).sort();
+    const ruleSets: RuleSet[] = [];
+    const invalid: RuleSetList["invalid"] = [];
+
+    for (const file of files) {
+        const id = file.slice(0, -".json".length);
+        const result = isRuleSetId(id) ? await readRuleSet(id) : { error: "isn't a valid rule set id" };
+        if ("error" in result) invalid.push({ id, error: result.error });
+        else ruleSets.push(result.ruleSet);
+    }
+    // Default first, it's the one most datasets use
+    ruleSets.sort((a, b) => Number(b.id === DEFAULT_RULE_SET_ID) - Number(a.id === DEFAULT_RULE_SET_ID));
+    return { ruleSets, invalid };
+};
+
+export const ruleSetForDataset = async (datasetId?: string): Promise<RuleSet> => {
+    const dataset = datasetId ? await getRepository().getDataset(datasetId) : undefined;
+    return loadRuleSet(dataset?.ruleSet || DEFAULT_RULE_SET_ID);
+};
+
+// Validate records against their own dataset's rule set—a bulk selection or a merge can span datasets
+export const validateRecords = async (records: Record[]): Promise<Record[]> => {
+    const ruleSets = new Map<string, RuleSet>();
+    for (const datasetId of Array.from(new Set(records.map((record) => record.datasetId ?? "")))) {
+        ruleSets.set(datasetId, await ruleSetForDataset(datasetId || undefined));
+    }
+    return records.map((record) => withValidation(record, ruleSets.get(record.datasetId ?? "")!));
+};
@@ -0,0 +1,78 @@
+// lib/search.ts
+// Search box syntax, shared by /api/data (matching) and the table (highlighting):
+//   houston                  free text, matched against every field, error message and severity
+//   email:gmail              only look at one field
+//   "main st"  city:"new y"  quoted phrases keep their spaces
+//   -pending  -email:test    negation—records that do NOT match
+// Every term has to match (AND). Prefixes we don't know ("foo:bar") are treated as plain text.
+
+import { allErrors } from "@/src/lib/errors";
+import { Record } from "@/src/types/record";
+
+// "error" searches the validation messages and codes, "severity" the severities of a record's errors
+export const SEARCH_FIELDS = ["id", "name", "email", "street", "city", "zipcode", "phone", "status", "error", "severity"] as const;
+export type SearchField = (typeof SEARCH_FIELDS)[number];
+
+export interface SearchTerm {
+    field?: SearchField; // Undefined means "anywhere"
+    value: string; // Always lowercase
+    negate: boolean;
+}
+
+export type SearchIndex = { [field in SearchField]: string };
+
+// An optional "-", an optional "field:", then either a "quoted phrase" or a run of non-space characters
+const TOKEN_PATTERN = /(-?)(?:([a-z]+):)?(?:"([^"]*)"?|(\S+))/gi;
+
+export const parseSearch = (input: string): SearchTerm[] => {
+    const terms: SearchTerm[] = [];
+
+    for (const match of Array.from(input.matchAll(TOKEN_PATTERN))) {
+        const [token, dash, prefix, phrase, word] = match;
+        const field = prefix?.toLowerCase() as SearchField | undefined;
+        const knownField = field && SEARCH_FIELDS.includes(field);
+
+        // "foo:bar" with an unknown prefix is just text—search for the whole token
+        const value = (knownField || !prefix ? phrase ?? word : token.replace(/^-/, "")) || "";
+        if (!value.trim()) continue;
+
+        terms.push({
+            field: knownField ? field : undefined,
+            value: value.trim().toLowerCase(),
+            negate: dash === "-",
+        });
+    }
+
+    return terms;
+};
+
+// Everything searchable about a record, flattened to lowercase strings once so matching is just includes()
+export const buildSearchIndex = (record: Record): SearchIndex => {
+    const errors = allErrors(record);
+
+    return {
+        id: String(record.id),
+        name: (record.name || "").toLowerCase(),
+        email: (record.email || "").toLowerCase(),
+        street: (record.street || "").toLowerCase(),
+        city: (record.city || "").toLowerCase(),
+        zipcode: (record.zipcode || "").toLowerCase(),
+        phone: `${record.phone || ""}\n${record.normalized?.phone?.e164 || ""}`.toLowerCase(), // "+1917" should find 917-...
+        status: (record.status || "").toLowerCase(),
+        error: errors.map((error) => `${error.message}\n${error.code}`.toLowerCase()).join("\n"), // error:phone.too_short works too
+        severity: errors.map((error) => error.severity).join("\n"),
+    };
+};
+
+const matchesTerm = (index: SearchIndex, term: SearchTerm) => {
+    const found = term.field
+        ? index[term.field].includes(term.value)
+        : SEARCH_FIELDS.some((field) => index[field].includes(term.value));
+    return term.negate ? !found : found;
+};
+
+export const matchesSearch = (index: SearchIndex, terms: SearchTerm[]) => terms.every((term) => matchesTerm(index, term));
+
+// The values worth highlighting in a given column: free-text terms plus the ones scoped to that column
+export const highlightTerms = (terms: SearchTerm[], field: SearchField) =>
+    terms.filter((term) => !term.negate && (!term.field || term.field === field)).map((term) => term.value);
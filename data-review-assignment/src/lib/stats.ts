@@ -0,0 +1,88 @@
+// lib/stats.ts
+// The numbers behind the dashboard (GET /api/stats), worked out from the records and the change log
+
+import { VALIDATED_FIELDS } from "@/src/consts/fields";
+import { SEVERITIES } from "@/src/consts/severities";
+import { recordAsOf } from "@/src/lib/audit";
+import { allErrors, fieldErrors, isClean, problemsIn } from "@/src/lib/errors";
+import { withValidation } from "@/src/lib/validation";
+import { ChangeEntry } from "@/src/types/audit";
+import { Dataset } from "@/src/types/dataset";
+import { Record, ValidationError } from "@/src/types/record";
+import { RuleSet } from "@/src/types/rules";
+import { DatasetStats, ErrorRate, SeverityCounts, TrendPoint } from "@/src/types/stats";
+
+// Every trend point revalidates the whole dataset, so only the most recent days with edits are charted
+const MAX_TREND_POINTS = 30;
+
+const countBySeverity = (errors: ValidationError[]): SeverityCounts => {
+    const counts = Object.fromEntries(SEVERITIES.map((severity) => [severity, 0])) as SeverityCounts;
+    errors.forEach((error) => counts[error.severity]++);
+    return counts;
+};
+
+const problems = (record: Record) => problemsIn(allErrors(record));
+
+const errorRates = (records: Record[], groupOf: (record: Record) => string): ErrorRate[] => {
+    const rates = new Map<string, ErrorRate>();
+    records.forEach((record) => {
+        const value = groupOf(record);
+        const rate = rates.get(value) ?? { value, records: 0, withErrors: 0 };
+        rate.records++;
+        if (!isClean(record)) rate.withErrors++;
+        rates.set(value, rate);
+    });
+    // Worst rate first, bigger groups first when rates tie
+    return Array.from(rates.values()).sort((a, b) => b.withErrors / b.records - a.withErrors / a.records || b.records - a.records);
+};
+
+const dayOf = (timestamp: string) => timestamp.slice(0, 10);
+
+// The dataset as it stood at the end of its first day, every day something changed, and today—rebuilt by undoing
+// later changes (the same way the history tab does) and validated against today's rules so the points compare
+const buildTrend = (dataset: Dataset, records: Record[], changes: ChangeEntry[], ruleSet: RuleSet): TrendPoint[] => {
+    const days = Array.from(
+        new Set([dayOf(dataset.createdAt), ...changes.map((entry) => dayOf(entry.timestamp)), dayOf(new Date().toISOString())])
+    )
+        .sort()
+        .slice(-MAX_TREND_POINTS);
+
+    const changesByRecord = new Map<number, ChangeEntry[]>();
+    changes.forEach((entry) => {
+        if (!changesByRecord.has(entry.recordId)) changesByRecord.set(entry.recordId, []);
+        changesByRecord.get(entry.recordId)!.push(entry);
+    });
+
+    return days.map((date) => {
+        const endOfDay = new Date(`${date}T23:59:59.999Z`);
+        const asOf = records
+            .map((record) => recordAsOf(record, changesByRecord.get(record.id) ?? [], endOfDay))
+            .filter((record) => record.mergedInto === undefined)
+            .map((record) => withValidation(record, ruleSet));
+        return {
+            date,
+            records: asOf.length,
+            clean: asOf.filter(isClean).length,
+            errors: asOf.reduce((sum, record) => sum + problems(record).length, 0),
+        };
+    });
+};
+
+// `records` is every record in the dataset, merged ones included—they count towards the days before their merge
+export const computeStats = (dataset: Dataset, records: Record[], changes: ChangeEntry[], ruleSet: RuleSet): DatasetStats => {
+    const current = records.filter((record) => record.mergedInto === undefined).map((record) => withValidation(record, ruleSet));
+
+    return {
+        dataset: dataset.id,
+        records: current.length,
+        clean: current.filter(isClean).length,
+        errors: countBySeverity(current.flatMap(allErrors)),
+        byField: VALIDATED_FIELDS.map((field) => ({
+            field,
+            errors: countBySeverity(current.flatMap((record) => fieldErrors(record, field))),
+        })),
+        byCity: errorRates(current, (record) => record.city?.trim() || "(none)"),
+        byStatus: errorRates(current, (record) => record.status?.trim().toLowerCase() || "(none)"),
+        trend: buildTrend(dataset, records, changes, ruleSet),
+    };
+};
@@ -0,0 +1,20 @@
+// lib/store/index.ts
+
+import path from "path";
+import { JsonFileStore } from "./jsonFileStore";
+import { RecordRepository } from "./types";
+
+export type { RecordChanges, RecordRepository } from "./types";
+
+// DATA_STORE_PATH lets deploys point the store at a mounted volume
+const STORE_PATH = process.env.DATA_STORE_PATH || path.join(process.cwd(), ".data", "store.json");
+
+// One repository per server process—kept on globalThis so Next's hot reloading in dev doesn't spin up a second one
+const globalStore = globalThis as typeof globalThis & { __recordRepository?: RecordRepository };
+
+export const getRepository = (): RecordRepository => {
+    if (!globalStore.__recordRepository) {
+        globalStore.__recordRepository = new JsonFileStore(STORE_PATH);
+    }
+    return globalStore.__recordRepository;
+};
@@ -0,0 +1,364 @@
+// lib/store/jsonFileStore.ts
+// A JSON file on disk, plus the change log as JSON lines next to it—plenty for a review tool with one server
+// process, and trivial to back up. Every write still rewrites the whole store file, so a save costs time in
+// proportion to the number of records (tens of milliseconds at 50k). Past that, this wants a real database.
+
+import { randomUUID } from "crypto";
+import { promises as fs } from "fs";
+import path from "path";
+import { MOCK_DATA } from "@/src/consts/data";
+import { SAMPLE_DATASET_ID, SAMPLE_DATASET_NAME } from "@/src/consts/datasets";
+import { ChangeContext, diffChanges } from "@/src/lib/audit";
+import { ChangeEntry } from "@/src/types/audit";
+import { Dataset } from "@/src/types/dataset";
+import { Record } from "@/src/types/record";
+import { SavedView, ViewRequest } from "@/src/types/view";
+import { RecordChanges, RecordRepository } from "./types";
+
+type StoredDataset = Omit<Dataset, "recordCount">; // Counts are derived, not stored
+
+interface StoreData {
+    datasets: StoredDataset[];
+    records: Record[];
+    changes: ChangeEntry[]; // The audit log—only ever appended to
+    views: SavedView[];
+}
+
+// What's in the store file: everything but the log, which has its own file, and the id of the last log entry
+// that belongs to a finished write—see commit()
+type StoreFile = Omit<StoreData, "changes"> & { lastChangeId: number };
+
+// What a transaction works on: new arrays over the same objects, so anything it changes has to be replaced rather
+// than edited in place. changes only holds the transaction's own entries.
+type Draft = StoreData & { lastChangeId: number };
+
+const sampleDataset = (): StoredDataset => ({
+    id: SAMPLE_DATASET_ID,
+    name: SAMPLE_DATASET_NAME,
+    source: "sample",
+    createdAt: new Date().toISOString(),
+});
+
+// Errors are computed at request time, so the seed (like everything else on disk) is just the raw fields
+const seed = (): StoreData => ({
+    datasets: [sampleDataset()],
+    records: (MOCK_DATA.records as Record[]).map((record) => ({ ...record, datasetId: SAMPLE_DATASET_ID })),
+    changes: [],
+    views: [],
+});
+
+// Before review states there was only "mark reviewed", which stamped reviewedAt—those records count as approved
+const migrateRecord = (record: Record): Record =>
+    record.reviewedAt && !record.reviewState ? { ...record, reviewState: "approved" } : record;
+
+// Stores written before datasets existed only hold the sample records; ones written before the audit log have no changes,
+// and ones written before saved views have no views
+const migrate = (data: Partial<StoreData>): StoreData => {
+    if (data.datasets) {
+        return { ...data, records: data.records!.map(migrateRecord), changes: data.changes || [], views: data.views || [] } as StoreData;
+    }
+    return {
+        datasets: [sampleDataset()],
+        records: (data.records || []).map((record) => ({ ...migrateRecord(record), datasetId: SAMPLE_DATASET_ID })),
+        changes: [],
+        views: [],
+    };
+};
+
+export class JsonFileStore implements RecordRepository {
+    private data: StoreData | null = null;
+    private loading: Promise<StoreData> | null = null;
+    private writeQueue: Promise<unknown> = Promise.resolve(); // Writes go out one at a time so they can't clobber each other
+    private readonly logPath: string;
+
+    constructor(private readonly filePath: string) {
+        this.logPath = `${filePath.replace(/\.json$/, "")}.changes.jsonl`; // .data/store.json -> .data/store.changes.jsonl
+    }
+
+    async listDatasets(): Promise<Dataset[]> {
+        const data = await this.load();
+        const counts = new Map<string, number>();
+        data.records
+            .filter((record) => record.mergedInto === undefined)
+            .forEach((record) => counts.set(record.datasetId!, (counts.get(record.datasetId!) || 0) + 1));
+        return data.datasets.map((dataset) => ({ ...dataset, recordCount: counts.get(dataset.id) || 0 }));
+    }
+
+    async getDataset(id: string): Promise<Dataset | undefined> {
+        return (await this.listDatasets()).find((dataset) => dataset.id === id);
+    }
+
+    async createDataset(name: string, records: Omit<Record, "id" | "datasetId">[], ruleSet?: string): Promise<Dataset> {
+        const dataset: StoredDataset = {
+            id: `ds_${randomUUID()}`,
+            name,
+            source: "import",
+            createdAt: new Date().toISOString(),
+            ...(ruleSet && { ruleSet }),
+        };
+
+        await this.transaction((draft) => {
+            let nextId = draft.records.reduce((max, record) => Math.max(max, record.id), 0) + 1;
+            draft.datasets.push(dataset);
+            records.forEach((record) => draft.records.push({ id: nextId++, ...record, datasetId: dataset.id }));
+            return dataset;
+        });
+        return { ...dataset, recordCount: records.length };
+    }
+
+    async list(datasetId: string, options: { includeMerged?: boolean } = {}): Promise<Record[]> {
+        const data = await this.load();
+        return data.records.filter(
+            (record) => record.datasetId === datasetId && (options.includeMerged || record.mergedInto === undefined)
+        );
+    }
+
+    async get(id: number): Promise<Record | undefined> {
+        const data = await this.load();
+        return data.records.find((record) => record.id === id);
+    }
+
+    async getMany(ids: number[]): Promise<Record[]> {
+        const data = await this.load();
+        const wanted = new Set(ids);
+        return data.records.filter((record) => wanted.has(record.id));
+    }
+
+    async update(id: number, changes: RecordChanges, user: string): Promise<Record | undefined> {
+        return this.transaction((draft) => {
+            const index = draft.records.findIndex((record) => record.id === id);
+            if (index === -1) return undefined;
+
+            draft.records[index] = this.apply(draft, draft.records[index], changes, { user, source: "edit" });
+            return draft.records[index];
+        });
+    }
+
+    async updateMany(ids: number[], changes: RecordChanges, user: string): Promise<Record[]> {
+        const updated = await this.transaction((draft) => {
+            const wanted = new Set(ids);
+            const records: Record[] = [];
+            draft.records = draft.records.map((record) => {
+                if (!wanted.has(record.id)) return record;
+                records.push(this.apply(draft, record, changes, { user, source: "bulk" }));
+                return records[records.length - 1];
+            });
+            return records.length > 0 ? records : undefined;
+        });
+        return updated ?? [];
+    }
+
+    async merge(survivorId: number, absorbedIds: number[], changes: RecordChanges, user: string): Promise<Record | undefined> {
+        return this.transaction((draft) => {
+            const survivor = draft.records.find((record) => record.id === survivorId);
+            const absorbed = draft.records.filter((record) => absorbedIds.includes(record.id));
+            if (!survivor || absorbed.length !== new Set(absorbedIds).size) return undefined;
+
+            // Links are transitive—merging a record that had absorbed others takes its history along
+            const mergedFrom = new Set([
+                ...(survivor.mergedFrom || []),
+                ...absorbed.flatMap((record) => [record.id, ...(record.mergedFrom || [])]),
+            ]);
+            const context: ChangeContext = { user, source: "merge" };
+            const merged = this.apply(draft, survivor, { ...changes, mergedFrom: Array.from(mergedFrom).sort((a, b) => a - b) }, context);
+            draft.records = draft.records.map((record) => {
+                if (record === survivor) return merged;
+                return absorbed.includes(record) ? this.apply(draft, record, { mergedInto: survivorId }, context) : record;
+            });
+            return merged;
+        });
+    }
+
+    async history(recordId: number): Promise<ChangeEntry[]> {
+        const data = await this.load();
+        return data.changes.filter((entry) => entry.recordId === recordId);
+    }
+
+    async datasetHistory(datasetId: string): Promise<ChangeEntry[]> {
+        const data = await this.load();
+        const ids = new Set(data.records.filter((record) => record.datasetId === datasetId).map((record) => record.id));
+        return data.changes.filter((entry) => ids.has(entry.recordId));
+    }
+
+    async listViews(user: string): Promise<SavedView[]> {
+        const data = await this.load();
+        return data.views
+            .filter((view) => view.owner === user || view.shared)
+            .sort((a, b) => a.name.localeCompare(b.name));
+    }
+
+    async getView(id: string): Promise<SavedView | undefined> {
+        const data = await this.load();
+        return data.views.find((view) => view.id === id);
+    }
+
+    async createView(owner: string, request: ViewRequest): Promise<SavedView> {
+        const now = new Date().toISOString();
+        const view: SavedView = { id: `view_${randomUUID()}`, owner, ...request, createdAt: now, updatedAt: now };
+        await this.transaction((draft) => draft.views.push(view));
+        return view;
+    }
+
+    async updateView(id: string, changes: Partial<ViewRequest>): Promise<SavedView | undefined> {
+        return this.transaction((draft) => {
+            const index = draft.views.findIndex((view) => view.id === id);
+            if (index === -1) return undefined;
+
+            draft.views[index] = { ...draft.views[index], ...changes, updatedAt: new Date().toISOString() };
+            return draft.views[index];
+        });
+    }
+
+    async deleteView(id: string): Promise<boolean> {
+        const deleted = await this.transaction((draft) => {
+            const index = draft.views.findIndex((view) => view.id === id);
+            if (index === -1) return undefined;
+
+            draft.views.splice(index, 1);
+            return true;
+        });
+        return deleted ?? false;
+    }
+
+    // Log first, then change—the entries need the old values. Returns the changed copy for the caller to put in place.
+    private apply(draft: Draft, record: Record, changes: RecordChanges, context: ChangeContext): Record {
+        const nextId = (draft.changes[draft.changes.length - 1]?.id ?? draft.lastChangeId) + 1;
+        draft.changes.push(...diffChanges(record, changes, context, nextId, new Date().toISOString()));
+        return { ...record, ...changes };
+    }
+
+    // Every mutation runs here: on a draft of the store, which only replaces the real one once it's safely on disk.
+    // A failed write leaves memory, the files and the audit log as they were. Returning undefined skips the write.
+    private transaction<T>(change: (draft: Draft) => T | undefined): Promise<T | undefined> {
+        const run = async () => {
+            const data = await this.load();
+            const draft: Draft = {
+                datasets: [...data.datasets],
+                records: [...data.records],
+                views: [...data.views],
+                changes: [],
+                lastChangeId: data.changes[data.changes.length - 1]?.id ?? 0,
+            };
+            const result = change(draft);
+            if (result === undefined) return undefined;
+
+            await this.commit(draft);
+            this.data = {
+                datasets: draft.datasets,
+                records: draft.records,
+                views: draft.views,
+                changes: data.changes.concat(draft.changes),
+            };
+            return result;
+        };
+        const next = this.writeQueue.then(run, run);
+        this.writeQueue = next.catch(() => undefined); // One failed write shouldn't fail the ones queued behind it
+        return next;
+    }
+
+    // The new log entries are appended first and the store file names the last of them, so log entries from a write
+    // that never finished are recognizable—a failed write cuts them off again, and after a crash readLog drops them
+    private async commit(draft: Draft): Promise<void> {
+        const lastChangeId = draft.changes[draft.changes.length - 1]?.id ?? draft.lastChangeId;
+        const logSize = await this.logSize();
+        await fs.mkdir(path.dirname(this.logPath), { recursive: true });
+        if (draft.changes.length > 0) {
+            await fs.appendFile(this.logPath, draft.changes.map((entry) => `${JSON.stringify(entry)}\n`).join(""));
+        }
+        try {
+            await this.writeStore({ datasets: draft.datasets, records: draft.records, views: draft.views, lastChangeId });
+        } catch (err) {
+            if (draft.changes.length > 0) await fs.truncate(this.logPath, logSize).catch(() => undefined);
+            throw err;
+        }
+    }
+
+    // Read the files once and keep them in memory—this process is the only writer
+    private load(): Promise<StoreData> {
+        if (this.data) return Promise.resolve(this.data);
+        if (!this.loading) {
+            this.loading = this.readOrSeed().then(
+                (data) => {
+                    this.data = data;
+                    return data;
+                },
+                (err) => {
+                    this.loading = null; // Try again on the next request rather than failing every one after this
+                    throw err;
+                }
+            );
+        }
+        return this.loading;
+    }
+
+    private async readOrSeed(): Promise<StoreData> {
+        let contents: string;
+        try {
+            contents = await fs.readFile(this.filePath, "utf8");
+        } catch (err) {
+            if ((err as NodeJS.ErrnoException).code !== "ENOENT") throw err;
+            const data = seed(); // First run—start from the mock data and save it straight away
+            await this.writeStore({ datasets: data.datasets, records: data.records, views: data.views, lastChangeId: 0 });
+            return data;
+        }
+
+        // A corrupt file should fail loudly, not get reseeded
+        const { lastChangeId: committed = 0, ...stored } = JSON.parse(contents) as Partial<StoreFile & StoreData>;
+        if (!stored.changes) return migrate({ ...stored, changes: await this.readLog(committed) });
+
+        // Stores written before the log had its own file keep it inline—move it out once
+        const data = migrate(stored);
+        const lastChangeId = data.changes[data.changes.length - 1]?.id ?? 0;
+        await this.writeLog(data.changes);
+        await this.writeStore({ datasets: data.datasets, records: data.records, views: data.views, lastChangeId });
+        return data;
+    }
+
+    // The log up to the store file's lastChangeId. Anything after it (possibly half a line) is from a write that
+    // didn't finish, and is cut off so the next entries can take its ids.
+    private async readLog(lastChangeId: number): Promise<ChangeEntry[]> {
+        let contents: string;
+        try {
+            contents = await fs.readFile(this.logPath, "utf8");
+        } catch (err) {
+            if ((err as NodeJS.ErrnoException).code !== "ENOENT") throw err;
+            return [];
+        }
+
+        const lines = contents.split("\n").filter(Boolean);
+        const entries: ChangeEntry[] = [];
+        for (const line of lines) {
+            if ((entries[entries.length - 1]?.id ?? 0) >= lastChangeId) break;
+            entries.push(JSON.parse(line));
+        }
+        if (entries.length < lines.length) await this.writeLog(entries);
+        return entries;
+    }
+
+    private async logSize(): Promise<number> {
+        try {
+            return (await fs.stat(this.logPath)).size;
+        } catch (err) {
+            if ((err as NodeJS.ErrnoException).code !== "ENOENT") throw err;
+            return 0;
+        }
+    }
+
+    private writeLog(entries: ChangeEntry[]): Promise<void> {
+        return this.replaceFile(this.logPath, entries.map((entry) => `${JSON.stringify(entry)}\n`).join(""));
+    }
+
+    // No indentation—the file is rewritten on every save, and at tens of thousands of records pretty-printing
+    // roughly doubles its size
+    private writeStore(file: StoreFile): Promise<void> {
+        return this.replaceFile(this.filePath, JSON.stringify(file));
+    }
+
+    // Write to a temp file and rename it over the real one, so a crash mid-write never leaves half a file behind
+    private async replaceFile(filePath: string, contents: string): Promise<void> {
+        const tempPath = `${filePath}.tmp`;
+        await fs.mkdir(path.dirname(filePath), { recursive: true });
+        await fs.writeFile(tempPath, contents);
+        await fs.rename(tempPath, filePath);
+    }
+}
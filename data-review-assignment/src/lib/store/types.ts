@@ -0,0 +1,41 @@
+// lib/store/types.ts
+
+import { ChangeEntry } from "@/src/types/audit";
+import { Dataset } from "@/src/types/dataset";
+import { Record } from "@/src/types/record";
+import { SavedView, ViewRequest } from "@/src/types/view";
+
+export type RecordChanges = Partial<Omit<Record, "id" | "errors">>;
+
+// Everything API routes need from storage—routes should only ever talk to this, never to the file directly.
+// Every mutation takes the user making it and writes one change log entry per field it changes, in the same write.
+export interface RecordRepository {
+    listDatasets(): Promise<Dataset[]>;
+    getDataset(id: string): Promise<Dataset | undefined>;
+    // Ids are assigned here so they stay unique across every dataset
+    createDataset(name: string, records: Omit<Record, "id" | "datasetId">[], ruleSet?: string): Promise<Dataset>;
+
+    // Leaves out records that were merged into another one, unless asked for (rebuilding the past needs them)
+    list(datasetId: string, options?: { includeMerged?: boolean }): Promise<Record[]>;
+    get(id: number): Promise<Record | undefined>; // ...but they can still be fetched by id
+    getMany(ids: number[]): Promise<Record[]>; // The ones that exist, in store order
+    // Resolves to the updated record, or undefined if there's no record with that id
+    update(id: number, changes: RecordChanges, user: string): Promise<Record | undefined>;
+    // Applies the same changes to every id in one write; resolves to the records that existed
+    updateMany(ids: number[], changes: RecordChanges, user: string): Promise<Record[]>;
+    // Applies the picked values to the survivor, links it to the absorbed records (mergedFrom/mergedInto) and
+    // drops those from list(). Resolves to the survivor, or undefined if any of the ids doesn't exist.
+    merge(survivorId: number, absorbedIds: number[], changes: RecordChanges, user: string): Promise<Record | undefined>;
+
+    // The change log for one record, oldest first. Append-only—nothing ever edits or removes an entry.
+    history(recordId: number): Promise<ChangeEntry[]>;
+    // The same for every record in a dataset, merged ones included
+    datasetHistory(datasetId: string): Promise<ChangeEntry[]>;
+
+    // Saved table views. Not audited—they're preferences, not data.
+    listViews(user: string): Promise<SavedView[]>; // The user's own views plus everyone's shared ones
+    getView(id: string): Promise<SavedView | undefined>;
+    createView(owner: string, view: ViewRequest): Promise<SavedView>;
+    updateView(id: string, changes: Partial<ViewRequest>): Promise<SavedView | undefined>;
+    deleteView(id: string): Promise<boolean>; // False when there was no such view
+}
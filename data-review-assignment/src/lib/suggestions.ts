@@ -0,0 +1,95 @@
+// lib/suggestions.ts
+// Machine-generated fixes for flagged values. Each helper returns the corrected value, or null when it has nothing to offer.
+
+import { DOMAIN_TYPOS, POPULAR_DOMAINS, TLD_TYPOS } from "@/src/consts/emailDomains";
+import { EditableField } from "@/src/consts/fields";
+import { FixSuggestion } from "@/src/types/record";
+
+export const suggestion = (label: string, value: string, field?: EditableField): FixSuggestion =>
+    field ? { label, value, field } : { label, value };
+
+// "  123  Main St " -> "123 Main St"
+export const collapseWhitespace = (value: string) => value.trim().replace(/\s+/g, " ");
+
+// Lowercases the domain (the local part is technically case-sensitive, so we leave it alone)
+export const lowercaseEmailDomain = (value: string): string | null => {
+    const at = value.lastIndexOf("@");
+    if (at < 0) return null;
+    const fixed = value.slice(0, at + 1) + value.slice(at + 1).toLowerCase();
+    return fixed === value ? null : fixed;
+};
+
+// Edit distance counting a swap of neighbouring letters as one edit (gmial -> gmail)
+const typoDistance = (a: string, b: string) => {
+    const d = Array.from({ length: a.length + 1 }, (_, i) =>
+        Array.from({ length: b.length + 1 }, (_, j) => (i === 0 ? j : j === 0 ? i : 0))
+    );
+    for (let i = 1; i <= a.length; i++) {
+        for (let j = 1; j <= b.length; j++) {
+            d[i][j] = Math.min(d[i - 1][j] + 1, d[i][j - 1] + 1, d[i - 1][j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+            if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+                d[i][j] = Math.min(d[i][j], d[i - 2][j - 2] + 1);
+            }
+        }
+    }
+    return d[a.length][b.length];
+};
+
+// Short provider names sit one letter away from plenty of real domains (mail.com vs email.com, gmx.com vs gmc.com)
+const MIN_FUZZY_NAME_LENGTH = 5;
+
+const splitDomain = (domain: string) => {
+    const dot = domain.lastIndexOf(".");
+    return { name: domain.slice(0, dot), tld: domain.slice(dot + 1) };
+};
+
+// One slip inside a long provider name. The TLD has to match—another TLD is more often a real country domain than
+// a slip, and the known TLD typos are handled separately—and so does the first letter, since a different one usually
+// means a different provider rather than a typo (ymail, email).
+const isNearMiss = (domain: string, popular: string) => {
+    const typed = splitDomain(domain);
+    const wanted = splitDomain(popular);
+    return (
+        wanted.name.length >= MIN_FUZZY_NAME_LENGTH &&
+        typed.tld === wanted.tld &&
+        typed.name[0] === wanted.name[0] &&
+        typoDistance(typed.name, wanted.name) === 1
+    );
+};
+
+// The domain someone most likely meant: a known misspelling, a mangled TLD (.con), or a near miss of a popular provider
+const likelyDomain = (domain: string): string | null => {
+    if (DOMAIN_TYPOS[domain]) return DOMAIN_TYPOS[domain];
+
+    const dot = domain.lastIndexOf(".");
+    const tld = domain.slice(dot + 1);
+    if (dot > 0 && TLD_TYPOS[tld]) return `${domain.slice(0, dot)}.${TLD_TYPOS[tld]}`;
+
+    if (dot <= 0 || POPULAR_DOMAINS.includes(domain)) return null;
+    return POPULAR_DOMAINS.find((popular) => isNearMiss(domain, popular)) ?? null;
+};
+
+// john@gmial.com -> john@gmail.com
+export const fixEmailDomainTypo = (value: string): string | null => {
+    const at = value.lastIndexOf("@");
+    if (at < 0) return null;
+    const fixed = likelyDomain(value.slice(at + 1).toLowerCase());
+    return fixed ? value.slice(0, at + 1) + fixed : null;
+};
+
+// The usual ways an otherwise fine address gets mangled: stray spaces, a comma for a dot, a doubled @
+export const repairEmail = (value: string): string | null => {
+    const fixed = value.replace(/\s+/g, "").replace(/@+/g, "@").replace(/,/g, ".").replace(/\.{2,}/g, ".");
+    return fixed === value ? null : fixed;
+};
+
+// Spreadsheets love dropping the leading zero of New England ZIPs (02134 -> 2134) and the dash of ZIP+4
+export const fixZipcode = (value: string): FixSuggestion | null => {
+    if (/^\d{4}$/.test(value)) return suggestion("Restore the leading zero", `0${value}`);
+    if (!/^[\d\s.-]+$/.test(value)) return null; // Letters mean it's not just a formatting problem
+
+    const digits = value.replace(/\D/g, "");
+    if (digits.length === 9) return suggestion("Format as ZIP+4", `${digits.slice(0, 5)}-${digits.slice(5)}`);
+    if (digits.length === 5) return suggestion("Remove stray characters", digits);
+    return null;
+};
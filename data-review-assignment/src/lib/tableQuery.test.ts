@@ -0,0 +1,121 @@
+/** @jest-environment node */
+// The query string is the contract between the table, its URL and /api/data—these check both directions
+
+import {
+    DEFAULT_TABLE_QUERY,
+    MAX_PAGE_SIZE,
+    RawQuery,
+    SortSpec,
+    TableQuery,
+    parseTableQuery,
+    parseTableUrl,
+    toQueryParams,
+    toTableUrlParams,
+    toggleFacet,
+    toggleSort,
+} from "@/src/lib/tableQuery";
+
+// URLSearchParams the way Next hands them to a route: repeated keys become arrays
+const toRawQuery = (params: URLSearchParams): RawQuery => {
+    const raw: RawQuery = {};
+    params.forEach((value, key) => {
+        const existing = raw[key];
+        raw[key] = existing === undefined ? value : ([] as string[]).concat(existing, value);
+    });
+    return raw;
+};
+
+const query: TableQuery = {
+    dataset: "ds_1",
+    page: 3,
+    pageSize: 100,
+    sort: [
+        { field: "status", order: "asc" },
+        { field: "severity", order: "desc" },
+    ],
+    search: 'email:gmail "main st"',
+    filters: { zipcode: "770" },
+    facets: { status: ["pending", "active"], review: [], city: ["Houston"], severity: ["critical"], errorField: ["phone"] },
+};
+
+describe("parseTableQuery", () => {
+    it("falls back to the defaults for anything missing or malformed", () => {
+        expect(parseTableQuery({})).toEqual({ ...DEFAULT_TABLE_QUERY, sort: [] });
+        expect(parseTableQuery({ page: "-2", pageSize: "lots", sort: "colour:asc" })).toEqual({ ...DEFAULT_TABLE_QUERY, sort: [] });
+    });
+
+    it("caps the page size, except for the export's all", () => {
+        expect(parseTableQuery({ pageSize: "1000000" }).pageSize).toBe(MAX_PAGE_SIZE);
+        expect(parseTableQuery({ pageSize: "all" }).pageSize).toBe("all");
+    });
+
+    it("reads multi-column sorts, and the older sort=&order= links", () => {
+        expect(parseTableQuery({ sort: "status:desc,name,status:asc" }).sort).toEqual([
+            { field: "status", order: "desc" },
+            { field: "name", order: "asc" },
+        ]);
+        expect(parseTableQuery({ sort: "name", order: "desc" }).sort).toEqual([{ field: "name", order: "desc" }]);
+    });
+
+    it("drops blank facet values", () => {
+        expect(parseTableQuery({ status: ["pending", " ", ""], city: " Houston " }).facets).toMatchObject({
+            status: ["pending"],
+            city: ["Houston"],
+        });
+    });
+});
+
+describe("toQueryParams", () => {
+    it("round-trips through parseTableQuery", () => {
+        expect(parseTableQuery(toRawQuery(toQueryParams(query)))).toEqual(query);
+    });
+
+    it("leaves the defaults out", () => {
+        expect(toQueryParams({ ...DEFAULT_TABLE_QUERY, sort: [] }).toString()).toBe("");
+    });
+});
+
+describe("table URLs", () => {
+    it("leaves out the table's default sort and writes no sort at all as an empty sort=", () => {
+        expect(toTableUrlParams(DEFAULT_TABLE_QUERY).toString()).toBe("");
+        expect(toTableUrlParams({ ...DEFAULT_TABLE_QUERY, sort: [] }).toString()).toBe("sort=");
+        expect(toTableUrlParams(DEFAULT_TABLE_QUERY, 12).toString()).toBe("record=12");
+    });
+
+    it.each([
+        ["the default sort", DEFAULT_TABLE_QUERY, undefined],
+        ["no sort", { ...DEFAULT_TABLE_QUERY, sort: [] }, undefined],
+        ["an open record", query, 12],
+    ])("round-trips %s", (_, tableQuery, recordId) => {
+        expect(parseTableUrl(toRawQuery(toTableUrlParams(tableQuery, recordId)))).toEqual({ query: tableQuery, recordId });
+    });
+
+    it("ignores a record that isn't an id", () => {
+        expect(parseTableUrl({ record: "abc" }).recordId).toBeUndefined();
+    });
+});
+
+describe("toggleSort", () => {
+    it("cycles a column through ascending, descending and unsorted", () => {
+        const ascending = toggleSort([], "name", false);
+        const descending = toggleSort(ascending, "name", false);
+        expect(ascending).toEqual([{ field: "name", order: "asc" }]);
+        expect(descending).toEqual([{ field: "name", order: "desc" }]);
+        expect(toggleSort(descending, "name", false)).toEqual([]);
+    });
+
+    it("replaces the sort on a plain click and adds to it on shift-click", () => {
+        const sort: SortSpec[] = [{ field: "status", order: "desc" }];
+        expect(toggleSort(sort, "name", false)).toEqual([{ field: "name", order: "asc" }]);
+        expect(toggleSort(sort, "name", true)).toEqual([...sort, { field: "name", order: "asc" }]);
+        expect(toggleSort([...sort, { field: "name", order: "asc" }], "status", true)).toEqual([{ field: "name", order: "asc" }]);
+    });
+});
+
+describe("toggleFacet", () => {
+    it("adds or removes one value and leaves the other facets alone", () => {
+        const added = toggleFacet(query.facets, "status", "inactive");
+        expect(added).toEqual({ ...query.facets, status: ["pending", "active", "inactive"] });
+        expect(toggleFacet(added, "status", "pending").status).toEqual(["active", "inactive"]);
+    });
+});
@@ -0,0 +1,168 @@
+// lib/tableQuery.ts
+// Shared by the table and /api/data so both sides agree on what the query parameters mean
+
+import { SAMPLE_DATASET_ID } from "@/src/consts/datasets";
+import { SEVERITIES } from "@/src/consts/severities";
+
+export const DEFAULT_PAGE_SIZE = 25;
+export const MAX_PAGE_SIZE = 5000; // The table body is virtualized, so big pages are cheap to render
+export const PAGE_SIZE_OPTIONS = [25, 50, 100, 250, 1000, 5000];
+
+// "severity" sorts by how bad a record's errors are: blocker count first, then critical, warnings and info notes.
+// "review" follows the workflow order (unreviewed, in review, approved, rejected). "score" is the quality score,
+// so ascending puts the records in the worst shape first.
+export const SORTABLE_FIELDS = ["id", "name", "email", "street", "city", "zipcode", "phone", "status", "review", "severity", "score"] as const;
+export type SortField = (typeof SORTABLE_FIELDS)[number];
+
+// Free-text filters on a single field (?email=gmail)—partial, case-insensitive matches
+export const FILTERABLE_FIELDS = ["name", "email", "street", "zipcode", "phone"] as const;
+export type FilterField = (typeof FILTERABLE_FIELDS)[number];
+
+// Facets are exact-match and multi-select (?status=pending&status=active). Values within a facet are OR'd,
+// facets are AND'd. "severity" is a record's worst severity, or "clean" when it has nothing worse than info notes—scoped to the
+// selected errorField values when there are any, so severity=critical&errorField=phone means "critical phone errors".
+// "review" is the review state (unreviewed, in_review, approved, rejected).
+export const FACETS = ["status", "review", "city", "severity", "errorField"] as const;
+export type Facet = (typeof FACETS)[number];
+export type FacetSelection = { [facet in Facet]: string[] };
+
+export const SEVERITY_FACET_VALUES = [...SEVERITIES, "clean"] as const;
+
+export interface FacetCount {
+    value: string;
+    count: number; // How many records you'd get with this value as the facet's only selection
+}
+export type FacetCounts = { [facet in Facet]: FacetCount[] };
+
+export type SortOrder = "asc" | "desc";
+
+export interface SortSpec {
+    field: SortField;
+    order: SortOrder;
+}
+
+export interface TableQuery {
+    dataset: string;
+    page: number;
+    pageSize: number | "all"; // "all" is only used by the CSV export
+    sort: SortSpec[]; // In priority order—the first entry wins, later ones break ties
+    search: string;
+    filters: Partial<{ [field in FilterField]: string }>;
+    facets: FacetSelection;
+}
+
+export const DEFAULT_TABLE_QUERY: TableQuery = {
+    dataset: SAMPLE_DATASET_ID,
+    page: 1,
+    pageSize: DEFAULT_PAGE_SIZE,
+    sort: [{ field: "score", order: "asc" }], // Reviewers start from the lowest-scoring records
+    search: "",
+    filters: {},
+    facets: { status: [], review: [], city: [], severity: [], errorField: [] },
+};
+
+// Next hands us string | string[] | undefined for every query param—we only care about the first value
+export type RawQuery = { [key: string]: string | string[] | undefined };
+
+const first = (value: string | string[] | undefined) => (Array.isArray(value) ? value[0] : value);
+
+const all = (value: string | string[] | undefined) =>
+    (Array.isArray(value) ? value : value ? [value] : []).map((v) => v.trim()).filter(Boolean);
+
+const toPositiveInt = (value: string | undefined, fallback: number) => {
+    const parsed = Number.parseInt(value ?? "", 10);
+    return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+};
+
+// ?sort=status:asc,severity:desc—a bare field falls back to ?order= so the old sort=name&order=desc links keep working
+const parseSort = (rawSort: string | undefined, defaultOrder: SortOrder): SortSpec[] => {
+    const specs: SortSpec[] = [];
+
+    (rawSort || "").split(",").forEach((part) => {
+        const [field, order] = part.trim().split(":");
+        if (!SORTABLE_FIELDS.includes(field as SortField)) return;
+        if (specs.some((spec) => spec.field === field)) return; // First mention wins
+        specs.push({ field: field as SortField, order: order === "asc" || order === "desc" ? order : defaultOrder });
+    });
+
+    return specs;
+};
+
+// Turn raw query params into a TableQuery, falling back to defaults for anything missing or malformed
+export const parseTableQuery = (raw: RawQuery): TableQuery => {
+    const rawPageSize = first(raw.pageSize);
+    const filters: TableQuery["filters"] = {};
+
+    FILTERABLE_FIELDS.forEach((field) => {
+        const value = first(raw[field])?.trim();
+        if (value) filters[field] = value;
+    });
+
+    return {
+        dataset: first(raw.dataset)?.trim() || SAMPLE_DATASET_ID,
+        page: toPositiveInt(first(raw.page), 1),
+        pageSize: rawPageSize === "all" ? "all" : Math.min(toPositiveInt(rawPageSize, DEFAULT_PAGE_SIZE), MAX_PAGE_SIZE),
+        sort: parseSort(first(raw.sort), first(raw.order) === "desc" ? "desc" : "asc"),
+        search: first(raw.q)?.trim() ?? "",
+        filters,
+        facets: {
+            status: all(raw.status),
+            review: all(raw.review),
+            city: all(raw.city),
+            severity: all(raw.severity),
+            errorField: all(raw.errorField),
+        },
+    };
+};
+
+// The reverse of parseTableQuery—only non-default values end up in the URL to keep it short
+export const toQueryParams = (query: TableQuery) => {
+    const params = new URLSearchParams();
+
+    if (query.dataset !== SAMPLE_DATASET_ID) params.set("dataset", query.dataset);
+    if (query.page !== 1) params.set("page", String(query.page));
+    if (query.pageSize !== DEFAULT_PAGE_SIZE) params.set("pageSize", String(query.pageSize));
+    if (query.sort.length > 0) params.set("sort", query.sort.map((spec) => `${spec.field}:${spec.order}`).join(","));
+    if (query.search) params.set("q", query.search);
+    Object.entries(query.filters).forEach(([field, value]) => {
+        if (value) params.set(field, value);
+    });
+    FACETS.forEach((facet) => query.facets[facet].forEach((value) => params.append(facet, value)));
+
+    return params;
+};
+
+// The table's own URL (/?status=pending&record=12) uses the same parameters as /api/data, plus the record whose
+// modal is open. The table starts out sorted, unlike the API, so the default sort is left out and no sort at all
+// is written as an empty sort= to tell the two apart on reload.
+export const toTableUrlParams = (query: TableQuery, recordId?: number) => {
+    const params = toQueryParams(query);
+    if (JSON.stringify(query.sort) === JSON.stringify(DEFAULT_TABLE_QUERY.sort)) params.delete("sort");
+    else if (query.sort.length === 0) params.set("sort", "");
+    if (recordId !== undefined) params.set("record", String(recordId));
+    return params;
+};
+
+export const parseTableUrl = (raw: RawQuery): { query: TableQuery; recordId?: number } => {
+    const query = parseTableQuery(raw);
+    if (raw.sort === undefined) query.sort = DEFAULT_TABLE_QUERY.sort;
+    const recordId = Number.parseInt(first(raw.record) ?? "", 10);
+    return { query, recordId: Number.isInteger(recordId) ? recordId : undefined };
+};
+
+// Header clicks cycle a column through ascending -> descending -> unsorted.
+// A plain click makes it the only sort; shift-click (multi) keeps the other columns and adds/cycles this one.
+export const toggleSort = (sort: SortSpec[], field: SortField, multi: boolean): SortSpec[] => {
+    const current = sort.find((spec) => spec.field === field);
+    const next: SortSpec | null = !current ? { field, order: "asc" } : current.order === "asc" ? { field, order: "desc" } : null;
+
+    if (!multi) return next ? [next] : [];
+    if (!current) return [...sort, next!];
+    return next ? sort.map((spec) => (spec.field === field ? next : spec)) : sort.filter((spec) => spec.field !== field);
+};
+
+// Add or remove one facet value, leaving the rest of the selection alone
+export const toggleFacet = (facets: FacetSelection, facet: Facet, value: string): FacetSelection => ({
+    ...facets,
+    [facet]: facets[facet].includes(value) ? facets[facet].filter((v) => v !== value) : [...facets[facet], value],
+});
@@ -0,0 +1,220 @@
+// lib/validation.ts
+// Server-side validation engine—the errors map on every record is computed here from the actual field values.
+// Each field gets a list of errors, worst first, each with a stable code (the rule id, or the check's own code).
+
+import {
+    collapseWhitespace,
+    fixEmailDomainTypo,
+    fixZipcode,
+    lowercaseEmailDomain,
+    repairEmail,
+    suggestion,
+} from "@/src/lib/suggestions";
+import { EMAIL_PROBLEM_MESSAGES, EmailProblem, emailSyntaxProblem, isDisposableEmail, isRoleEmail } from "@/src/lib/email";
+import { lettersToDigits, parsePhone, PHONE_PROBLEM_MESSAGES, PhoneProblem } from "@/src/lib/phone";
+import { breaksCrossFieldRule, crossFieldFields, describeCrossFieldRule } from "@/src/lib/crossField";
+import { cityHasZipcode, findCity, locateZipcode } from "@/src/lib/postal";
+import { bySeverity, qualityScore } from "@/src/lib/errors";
+import { FixSuggestion, NormalizedValues, Record, RecordErrors, ValidatedField, ValidationError } from "@/src/types/record";
+import { CrossFieldRule, FieldRule, Rule, RuleCheck, RuleFix, RuleSet } from "@/src/types/rules";
+
+// A check looks at one field (with the rest of the record for context) and returns its errors—none when the value is fine
+type Check = (value: string, record: Record) => ValidationError[];
+
+// 5-digit ZIP or ZIP+4—the location check only makes sense once the format is right
+const ZIPCODE_PATTERN = /^\d{5}(?:-\d{4})?$/;
+
+// Builds an error, keeping only the suggestions that actually came up with something
+const error = (
+    code: string,
+    message: string,
+    severity: ValidationError["severity"],
+    suggestions: (FixSuggestion | null)[] = []
+): ValidationError => {
+    const offered = suggestions.filter((s): s is FixSuggestion => s !== null);
+    return offered.length > 0 ? { code, message, severity, suggestions: offered } : { code, message, severity };
+};
+
+// Email and phone errors are coded by problem (email.missing_at, phone.too_short...) and use the shared messages
+const emailError = (problem: EmailProblem, severity: ValidationError["severity"], suggestions: (FixSuggestion | null)[] = []) =>
+    error(`email.${problem}`, EMAIL_PROBLEM_MESSAGES[problem], severity, suggestions);
+
+const phoneError = (problem: PhoneProblem, severity: ValidationError["severity"], suggestions: (FixSuggestion | null)[] = []) =>
+    error(`phone.${problem}`, PHONE_PROBLEM_MESSAGES[problem], severity, suggestions);
+
+// Does the ZIP exist, and is it in the stated city? Cities outside our reference table only get the first check.
+// Another state is critical (the mail won't arrive). The same state but outside the city's ranges is only a note:
+// it may be a suburb, or a part of the city the reference doesn't list (see consts/zipCodes.ts).
+const checkZipcodeLocation = (zipcode: string, city: string): ValidationError | null => {
+    const location = locateZipcode(zipcode);
+    if (!location) return error("zipcode.unknown", `Zipcode ${zipcode.slice(0, 5)} doesn't exist`, "critical");
+
+    const statedCity = findCity(city);
+    if (!statedCity || cityHasZipcode(statedCity, zipcode)) return null;
+
+    const where = location.city ? `${location.city}, ${location.state}` : location.state;
+    const cityFix = location.city ? suggestion(`Change city to ${location.city}`, location.city, "city") : null;
+    return location.state === statedCity.state
+        ? error("zipcode.other_city", `Zipcode is in ${where}, not ${statedCity.city}`, "info", [cityFix])
+        : error("zipcode.other_state", `Zipcode is in ${where}, not ${statedCity.city}, ${statedCity.state}`, "critical", [cityFix]);
+};
+
+// The built-in checks rule files can call on with { "type": "check" }
+const CHECKS: { [check in RuleCheck]: Check } = {
+    email: (value) => {
+        const syntaxProblem = emailSyntaxProblem(value); // See lib/email.ts for what counts as valid
+        if (syntaxProblem) {
+            const repaired = syntaxProblem === "missing" ? null : repairEmail(value);
+            return [
+                emailError(syntaxProblem, "critical", [
+                    repaired && !emailSyntaxProblem(repaired) ? suggestion(`Change to ${repaired}`, repaired) : null,
+                ]),
+            ];
+        }
+
+        // A well-formed address can have several of these at once (say, a role address at a mistyped domain)
+        const errors: ValidationError[] = [];
+        const typoFix = fixEmailDomainTypo(value);
+        if (typoFix) errors.push(emailError("domain_typo", "warning", [suggestion(`Change to ${typoFix}`, typoFix)]));
+        // Deliverable, but nobody will be reading it for long (or at all)
+        if (isDisposableEmail(value)) errors.push(emailError("disposable", "warning"));
+        if (isRoleEmail(value)) errors.push(emailError("role_address", "warning"));
+
+        const lowercased = lowercaseEmailDomain(value);
+        if (lowercased) errors.push(emailError("uppercase_domain", "warning", [suggestion(`Change to ${lowercased}`, lowercased)]));
+        return errors;
+    },
+    phone: (value) => {
+        const parsed = parsePhone(value); // See lib/phone.ts for what counts as valid
+        if (parsed.problem === "missing") return [phoneError("missing", "warning")];
+        if (parsed.problem === "letters") {
+            // Vanity numbers (1-800-FLOWERS) are fixable—spell them out on the keypad
+            const spelled = parsePhone(lettersToDigits(value));
+            if (spelled.formatted) return [phoneError("letters", "critical", [suggestion(`Convert to ${spelled.formatted}`, spelled.formatted)])];
+
+            // Not a vanity number, so the letters are junk—say what's wrong with the digits as well
+            const digits = parsePhone(value.replace(/[a-z]/gi, ""));
+            const digitsProblem = digits.problem && digits.problem !== "missing" ? digits.problem : null;
+            return [phoneError("letters", "critical"), ...(digitsProblem ? [phoneError(digitsProblem, "critical")] : [])];
+        }
+        if (parsed.problem) return [phoneError(parsed.problem, "critical")];
+
+        // Valid, but not in the house format—easy win for the reviewer
+        if (parsed.formatted !== value) {
+            const message = parsed.e164?.startsWith("+1")
+                ? "Phone number should be formatted as 555-555-5555"
+                : "International phone numbers should be in E.164 format";
+            return [error("phone.format", message, "warning", [suggestion(`Format as ${parsed.formatted}`, parsed.formatted!)])];
+        }
+        return [];
+    },
+    zipcodeLocation: (value, record) => {
+        const locationError = ZIPCODE_PATTERN.test(value) ? checkZipcodeLocation(value, record.city ?? "") : null;
+        return locationError ? [locationError] : [];
+    },
+};
+
+const FIXES: { [fix in RuleFix]: (value: string) => FixSuggestion | null } = {
+    zipcode: fixZipcode,
+};
+
+// Fills in {field}, {value} and any of the rule's own settings ({min}, {max}, {fields}...)
+const formatMessage = (template: string, rule: Rule, value: string) =>
+    template.replace(/\{(\w+)\}/g, (placeholder, key: string) => {
+        if (key === "value") return value;
+        const setting = (rule as unknown as { [key: string]: unknown })[key];
+        if (setting === undefined) return placeholder;
+        return Array.isArray(setting) ? setting.join(", ") : String(setting);
+    });
+
+// Runs one single-field rule from a rule file. Apart from required, rules leave empty values alone.
+const applyRule = (rule: FieldRule, value: string, record: Record): ValidationError[] => {
+    const fail = (suggestions: (FixSuggestion | null)[] = []) => [
+        error(rule.id, formatMessage(rule.message!, rule, value), rule.severity!, suggestions),
+    ];
+
+    switch (rule.type) {
+        case "required":
+            return value ? [] : fail();
+        case "check":
+            // The check's own messages and severities unless the rule overrides them
+            return CHECKS[rule.check](value, record).map((checkError) => ({
+                ...checkError,
+                message: rule.message ? formatMessage(rule.message, rule, value) : checkError.message,
+                severity: rule.severity ?? checkError.severity,
+            }));
+    }
+
+    if (!value) return [];
+    switch (rule.type) {
+        case "regex":
+            return new RegExp(rule.pattern, rule.flags).test(value) !== Boolean(rule.negate)
+                ? []
+                : fail([rule.fix ? FIXES[rule.fix](value) : null]);
+        case "length":
+            return (rule.min !== undefined && value.length < rule.min) || (rule.max !== undefined && value.length > rule.max)
+                ? fail()
+                : [];
+        case "lookup":
+            return rule.values.some((allowed) => allowed.toLowerCase() === value.toLowerCase()) ? [] : fail();
+    }
+};
+
+// A broken cross-field rule is one error, carrying the fields it involves and the rule in words for the modal
+const crossFieldError = (rule: CrossFieldRule, record: Record): ValidationError | null =>
+    breaksCrossFieldRule(rule, record)
+        ? {
+              ...error(rule.id, formatMessage(rule.message, rule, ""), rule.severity),
+              fields: crossFieldFields(rule),
+              relation: describeCrossFieldRule(rule),
+          }
+        : null;
+
+// Every rule on a field runs, in file order, and every failure is kept. The exception is an empty value:
+// once one rule has said it's missing, the rest would only say the same thing again.
+// Cross-field rules run after, and their errors are added to every field they involve.
+export const validateRecord = (record: Record, ruleSet: RuleSet): RecordErrors => {
+    const errors: RecordErrors = {};
+    const addErrors = (field: ValidatedField, found: ValidationError[]) => {
+        if (found.length > 0) errors[field] = [...(errors[field] ?? []), ...found];
+    };
+
+    const fieldRules = ruleSet.rules.filter((rule): rule is FieldRule => rule.type !== "cross-field");
+    new Set<ValidatedField>(fieldRules.map((rule) => rule.field)).forEach((field) => {
+        const raw = record[field] ?? "";
+        const value = raw.trim();
+        const found: ValidationError[] = [];
+        for (const rule of fieldRules) {
+            if (rule.field !== field) continue;
+            if (!value && found.length > 0) break;
+            found.push(...applyRule(rule, value, record));
+        }
+
+        if (found.length === 0 && raw !== collapseWhitespace(raw)) {
+            // The value itself is fine, it's just padded—worth a nudge, not an alarm
+            found.push(error(`${field}.whitespace`, "Extra whitespace", "warning", [suggestion("Trim whitespace", collapseWhitespace(raw))]));
+        }
+        addErrors(field, found);
+    });
+
+    ruleSet.rules.forEach((rule) => {
+        const relationError = rule.type === "cross-field" ? crossFieldError(rule, record) : null;
+        relationError?.fields?.forEach((field) => addErrors(field, [relationError]));
+    });
+
+    Object.values(errors).forEach((found) => found.sort(bySeverity));
+    return errors;
+};
+
+// The validator's cleaned-up view of the raw values—shown next to them in the table and the CSV export
+export const normalizeRecord = (record: Record): NormalizedValues => {
+    const phone = parsePhone(record.phone ?? "");
+    return phone.e164 ? { phone: { e164: phone.e164, country: phone.country!, lineType: phone.lineType! } } : {};
+};
+
+// Attach freshly computed errors, normalized values and score, ignoring whatever the record came in with.
+// Routes go through validateRecords in lib/rules.ts, which picks the rule set for the record's dataset.
+export const withValidation = (record: Record, ruleSet: RuleSet): Record => {
+    const validated = { ...record, errors: validateRecord(record, ruleSet), normalized: normalizeRecord(record) };
+    return { ...validated, score: qualityScore(validated) };
+};
@@ -0,0 +1,119 @@
+// lib/views.ts
+// Checks the body of POST /api/views and PUT /api/views/[id]. The view switcher uses normalizeViewSettings too,
+// so nothing server-only in here.
+
+import { TABLE_COLUMNS, TableColumn } from "@/src/consts/columns";
+import {
+    DEFAULT_TABLE_QUERY,
+    FACETS,
+    Facet,
+    FILTERABLE_FIELDS,
+    FilterField,
+    PAGE_SIZE_OPTIONS,
+    SORTABLE_FIELDS,
+    SortField,
+    SortSpec,
+} from "@/src/lib/tableQuery";
+import { ViewRequest, ViewSettings } from "@/src/types/view";
+
+const MAX_VIEW_NAME_LENGTH = 100;
+
+const isObject = (value: unknown): value is { [key: string]: unknown } =>
+    Boolean(value) && typeof value === "object" && !Array.isArray(value);
+
+const isStringArray = (value: unknown): value is string[] =>
+    Array.isArray(value) && value.every((item) => typeof item === "string");
+
+// One spelling for settings that mean the same thing: trimmed search, no empty filters, every facet present with
+// its values sorted, columns in display order. Saved views are stored this way, and the view switcher compares
+// through it, so a view doesn't show as modified the moment it's applied.
+export const normalizeViewSettings = (settings: ViewSettings): ViewSettings => ({
+    search: settings.search.trim(),
+    filters: Object.fromEntries(
+        FILTERABLE_FIELDS.filter((field) => settings.filters[field]).map((field) => [field, settings.filters[field]])
+    ),
+    facets: Object.fromEntries(FACETS.map((facet) => [facet, [...(settings.facets[facet] ?? [])].sort()])) as ViewSettings["facets"],
+    sort: settings.sort.map(({ field, order }) => ({ field, order })),
+    pageSize: settings.pageSize,
+    columns: TABLE_COLUMNS.filter((column) => settings.columns.includes(column)),
+});
+
+const parseSettings = (raw: unknown): { settings: ViewSettings } | { error: string } => {
+    if (!isObject(raw)) return { error: "settings must be an object" };
+    const { search, filters, facets, sort, pageSize, columns } = raw;
+
+    if (typeof search !== "string") return { error: "settings.search must be a string" };
+
+    if (!isObject(filters)) return { error: "settings.filters must be an object" };
+    for (const [field, value] of Object.entries(filters)) {
+        if (!FILTERABLE_FIELDS.includes(field as FilterField)) return { error: `settings.filters can't filter on "${field}"` };
+        if (typeof value !== "string") return { error: `settings.filters.${field} must be a string` };
+    }
+
+    // Facets left out of the request are saved as "nothing selected"
+    if (!isObject(facets)) return { error: "settings.facets must be an object" };
+    const parsedFacets = { ...DEFAULT_TABLE_QUERY.facets };
+    for (const [facet, values] of Object.entries(facets)) {
+        if (!FACETS.includes(facet as Facet)) return { error: `settings.facets has no facet "${facet}"` };
+        if (!isStringArray(values)) return { error: `settings.facets.${facet} must be an array of strings` };
+        parsedFacets[facet as Facet] = values;
+    }
+
+    if (
+        !Array.isArray(sort) ||
+        !sort.every(
+            (spec) => isObject(spec) && SORTABLE_FIELDS.includes(spec.field as SortField) && (spec.order === "asc" || spec.order === "desc")
+        )
+    ) {
+        return { error: `settings.sort must be an array of { field, order } with field one of ${SORTABLE_FIELDS.join(", ")}` };
+    }
+
+    if (!PAGE_SIZE_OPTIONS.includes(pageSize as number)) {
+        return { error: `settings.pageSize must be one of ${PAGE_SIZE_OPTIONS.join(", ")}` };
+    }
+
+    if (!isStringArray(columns) || columns.length === 0 || !columns.every((column) => TABLE_COLUMNS.includes(column as TableColumn))) {
+        return { error: `settings.columns must be a non-empty array of ${TABLE_COLUMNS.join(", ")}` };
+    }
+
+    return {
+        settings: normalizeViewSettings({
+            search,
+            filters: filters as ViewSettings["filters"],
+            facets: parsedFacets,
+            sort: sort as SortSpec[],
+            pageSize: pageSize as number,
+            columns: columns as TableColumn[],
+        }),
+    };
+};
+
+// `partial` is for PUT, where any of the keys can be left out
+export const parseViewRequest = (
+    body: unknown,
+    partial: boolean
+): { request: Partial<ViewRequest> } | { error: string } => {
+    if (!isObject(body)) return { error: "Request body must be a JSON object" };
+    const { name, shared, settings } = body;
+    const request: Partial<ViewRequest> = {};
+
+    if (name !== undefined || !partial) {
+        if (typeof name !== "string" || !name.trim()) return { error: "name is required" };
+        if (name.trim().length > MAX_VIEW_NAME_LENGTH) return { error: `name must be at most ${MAX_VIEW_NAME_LENGTH} characters` };
+        request.name = name.trim();
+    }
+    if (shared !== undefined) {
+        if (typeof shared !== "boolean") return { error: "shared must be true or false" };
+        request.shared = shared;
+    } else if (!partial) {
+        request.shared = false;
+    }
+    if (settings !== undefined || !partial) {
+        const parsed = parseSettings(settings);
+        if ("error" in parsed) return parsed;
+        request.settings = parsed.settings;
+    }
+
+    if (Object.keys(request).length === 0) return { error: "No changes provided" };
+    return { request };
+};
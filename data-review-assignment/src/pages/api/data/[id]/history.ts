@@ -0,0 +1,47 @@
+// pages/api/data/[id]/history.ts
+
+import { recordAsOf } from "@/src/lib/audit";
+import { validateRecords, withRuleSetErrors } from "@/src/lib/rules";
+import { getRepository } from "@/src/lib/store";
+import { RecordHistory } from "@/src/types/audit";
+import { NextApiRequest, NextApiResponse } from "next";
+
+// GET /api/data/[id]/history returns the record's change log, newest first.
+// GET /api/data/[id]/history?asOf=2024-05-01T12:00:00Z also rebuilds the record as it was at that moment.
+async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== "GET") {
+    res.setHeader("Allow", "GET");
+    return res.status(405).json({ error: `Method ${req.method} not allowed` });
+  }
+
+  const id = Number(req.query.id);
+  if (!Number.isInteger(id)) {
+    return res.status(400).json({ error: "Record id must be an integer" });
+  }
+
+  const rawAsOf = typeof req.query.asOf === "string" ? req.query.asOf : undefined;
+  const asOf = rawAsOf ? new Date(rawAsOf) : undefined;
+  if (asOf && Number.isNaN(asOf.getTime())) {
+    return res.status(400).json({ error: "asOf must be an ISO date or timestamp" });
+  }
+
+  const repository = getRepository();
+  const record = await repository.get(id);
+  if (!record) return res.status(404).json({ error: `Record ${id} not found` });
+
+  const entries = await repository.history(id);
+  const response: RecordHistory = { entries: [...entries].reverse() };
+  if (asOf) {
+    // Records arrive with their dataset, so before that there's nothing to rebuild
+    const dataset = await repository.getDataset(record.datasetId!);
+    if (dataset && asOf < new Date(dataset.createdAt)) {
+      return res.status(404).json({ error: `Record ${id} didn't exist yet on ${asOf.toISOString()}` });
+    }
+    response.asOf = asOf.toISOString();
+    [response.record] = await validateRecords([recordAsOf(record, entries, asOf)]); // Against today's rules
+  }
+
+  res.status(200).json(response);
+}
+
+export default withRuleSetErrors(handler);
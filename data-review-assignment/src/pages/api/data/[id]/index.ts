@@ -0,0 +1,75 @@
+// pages/api/data/[id]/index.ts
+
+import { EDITABLE_FIELDS, EditableField } from "@/src/consts/fields";
+import { breaksApproval, reviewChanges } from "@/src/lib/review";
+import { getReviewer } from "@/src/lib/reviewer";
+import { validateRecords, withRuleSetErrors } from "@/src/lib/rules";
+import { getRepository } from "@/src/lib/store";
+import { NextApiRequest, NextApiResponse } from "next";
+
+type RecordChanges = Partial<{ [field in EditableField]: string }>;
+
+// Only accept string values for editable fields—anything else is a client bug we want to hear about
+const parseChanges = (body: unknown): { changes: RecordChanges } | { error: string } => {
+  if (!body || typeof body !== "object" || Array.isArray(body)) {
+    return { error: "Request body must be a JSON object" };
+  }
+
+  const changes: RecordChanges = {};
+  for (const [field, value] of Object.entries(body)) {
+    if (!EDITABLE_FIELDS.includes(field as EditableField)) {
+      return { error: `Field "${field}" cannot be edited` };
+    }
+    if (typeof value !== "string") {
+      return { error: `Field "${field}" must be a string` };
+    }
+    changes[field as EditableField] = value; // Stored as typed—stray spaces get flagged with a one-click trim instead
+  }
+
+  if (Object.keys(changes).length === 0) {
+    return { error: "No changes provided" };
+  }
+  return { changes };
+};
+
+// GET /api/data/[id] returns a single record, PATCH /api/data/[id] edits it and returns it revalidated
+async function handler(req: NextApiRequest, res: NextApiResponse) {
+  const id = Number(req.query.id);
+  if (!Number.isInteger(id)) {
+    return res.status(400).json({ error: "Record id must be an integer" });
+  }
+
+  if (req.method === "GET") {
+    const record = await getRepository().get(id);
+    if (!record) return res.status(404).json({ error: `Record ${id} not found` });
+    const [validated] = await validateRecords([record]);
+    return res.status(200).json(validated);
+  }
+
+  if (req.method === "PATCH") {
+    const parsed = parseChanges(req.body);
+    if ("error" in parsed) return res.status(400).json({ error: parsed.error });
+
+    // Absorbed records are only kept for the link—their values live on in the survivor now
+    const repository = getRepository();
+    const existing = await repository.get(id);
+    if (!existing) return res.status(404).json({ error: `Record ${id} not found` });
+    if (existing.mergedInto !== undefined) {
+      return res.status(409).json({ error: `Record ${id} was merged into record ${existing.mergedInto}—edit that one instead` });
+    }
+
+    // Approved records whose edit adds critical errors go back to in review—see breaksApproval
+    const user = getReviewer(req);
+    const [before, after] = await validateRecords([existing, { ...existing, ...parsed.changes }]);
+    const reopen = breaksApproval(before, after) ? reviewChanges("in_review", user) : {};
+    const record = await repository.update(id, { ...parsed.changes, ...reopen }, user);
+    if (!record) return res.status(404).json({ error: `Record ${id} not found` });
+    const [validated] = await validateRecords([record]);
+    return res.status(200).json(validated);
+  }
+
+  res.setHeader("Allow", "GET, PATCH");
+  return res.status(405).json({ error: `Method ${req.method} not allowed` });
+}
+
+export default withRuleSetErrors(handler);
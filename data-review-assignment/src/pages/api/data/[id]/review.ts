@@ -0,0 +1,46 @@
+// pages/api/data/[id]/review.ts
+
+import { REVIEW_STATES, ReviewState } from "@/src/consts/review";
+import { checkReviewTransition, reviewChanges } from "@/src/lib/review";
+import { getReviewer } from "@/src/lib/reviewer";
+import { validateRecords, withRuleSetErrors } from "@/src/lib/rules";
+import { getRepository } from "@/src/lib/store";
+import { NextApiRequest, NextApiResponse } from "next";
+
+// POST /api/data/[id]/review { state, overrideReason? } moves the record through the review workflow.
+// 409 when the move isn't allowed from the current state, or when approving over critical errors without a reason.
+async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== "POST") {
+    res.setHeader("Allow", "POST");
+    return res.status(405).json({ error: `Method ${req.method} not allowed` });
+  }
+
+  const id = Number(req.query.id);
+  if (!Number.isInteger(id)) {
+    return res.status(400).json({ error: "Record id must be an integer" });
+  }
+
+  const { state, overrideReason } = (req.body || {}) as { state?: unknown; overrideReason?: unknown };
+  if (!REVIEW_STATES.includes(state as ReviewState)) {
+    return res.status(400).json({ error: `state must be one of ${REVIEW_STATES.join(", ")}` });
+  }
+  if (overrideReason !== undefined && typeof overrideReason !== "string") {
+    return res.status(400).json({ error: "overrideReason must be a string" });
+  }
+
+  const repository = getRepository();
+  const record = await repository.get(id);
+  if (!record) return res.status(404).json({ error: `Record ${id} not found` });
+
+  // Check against the record's current errors, not whatever the client last saw
+  const [validated] = await validateRecords([record]);
+  const transitionError = checkReviewTransition(validated, state as ReviewState, overrideReason);
+  if (transitionError) return res.status(409).json({ error: transitionError });
+
+  const user = getReviewer(req);
+  const updated = await repository.update(id, reviewChanges(state as ReviewState, user, overrideReason), user);
+  if (!updated) return res.status(404).json({ error: `Record ${id} not found` });
+  res.status(200).json((await validateRecords([updated]))[0]);
+}
+
+export default withRuleSetErrors(handler);
@@ -0,0 +1,104 @@
+// pages/api/data/bulk.ts
+
+import { STATUSES, Status } from "@/src/consts/fields";
+import { REVIEW_STATES, ReviewState } from "@/src/consts/review";
+import { breaksApproval, checkReviewTransition, reviewChanges } from "@/src/lib/review";
+import { getReviewer } from "@/src/lib/reviewer";
+import { validateRecords, withRuleSetErrors } from "@/src/lib/rules";
+import { getRepository } from "@/src/lib/store";
+import { BulkAction, BulkResult } from "@/src/types/record";
+import { NextApiRequest, NextApiResponse } from "next";
+
+// Selections can be whole datasets, so allow more than Next's 1mb default
+export const config = {
+  api: {
+    bodyParser: { sizeLimit: "5mb" },
+  },
+};
+
+const parseAction = (action: unknown): BulkAction | null => {
+  if (!action || typeof action !== "object") return null;
+  const { type, status, state, overrideReason } = action as {
+    type?: unknown;
+    status?: unknown;
+    state?: unknown;
+    overrideReason?: unknown;
+  };
+
+  if (type === "setStatus" && STATUSES.includes(status as Status)) return { type, status: status as Status };
+  if (type === "setReviewState" && REVIEW_STATES.includes(state as ReviewState)) {
+    return {
+      type,
+      state: state as ReviewState,
+      overrideReason: typeof overrideReason === "string" ? overrideReason : undefined,
+    };
+  }
+  return null;
+};
+
+// POST /api/data/bulk { ids: number[], action: { type: "setStatus", status } | { type: "setReviewState", state, overrideReason? } }
+// Responds with the updated records (revalidated), any ids that didn't exist, and the records a review
+// transition wasn't allowed for or that were merged into another record (with the reason)—those are left as they were
+async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== "POST") {
+    res.setHeader("Allow", "POST");
+    return res.status(405).json({ error: `Method ${req.method} not allowed` });
+  }
+
+  const { ids, action } = (req.body || {}) as { ids?: unknown; action?: unknown };
+  if (!Array.isArray(ids) || ids.length === 0 || !ids.every(Number.isInteger)) {
+    return res.status(400).json({ error: "ids must be a non-empty array of record ids" });
+  }
+
+  const bulkAction = parseAction(action);
+  if (!bulkAction) {
+    return res.status(400).json({
+      error: `action must be setStatus (${STATUSES.join(", ")}) or setReviewState (${REVIEW_STATES.join(", ")})`,
+    });
+  }
+
+  const repository = getRepository();
+  const user = getReviewer(req);
+  const existing = await repository.getMany(ids);
+  const found = new Set(existing.map((record) => record.id));
+  const notFound = (ids as number[]).filter((id) => !found.has(id));
+
+  if (bulkAction.type === "setStatus") {
+    // Records merged into another one are left alone, the same as for single edits
+    const merged = existing.filter((record) => record.mergedInto !== undefined);
+    const skipped = merged.map((record) => ({ id: record.id, error: `Record was merged into record ${record.mergedInto}` }));
+    const editable = existing.filter((record) => record.mergedInto === undefined);
+    const changes = { status: bulkAction.status };
+
+    // A new status can break a cross-field rule, so approved records that now have critical errors are reopened
+    const before = await validateRecords(editable);
+    const after = await validateRecords(editable.map((record) => ({ ...record, ...changes })));
+    const reopenIds = editable.filter((_, index) => breaksApproval(before[index], after[index])).map((record) => record.id);
+    const keepIds = editable.map((record) => record.id).filter((id) => !reopenIds.includes(id));
+
+    const records = [
+      ...(keepIds.length > 0 ? await repository.updateMany(keepIds, changes, user) : []),
+      ...(reopenIds.length > 0 ? await repository.updateMany(reopenIds, { ...changes, ...reviewChanges("in_review", user) }, user) : []),
+    ];
+    const response: BulkResult = { records: await validateRecords(records), notFound, skipped };
+    return res.status(200).json(response);
+  }
+
+  // Review moves are checked record by record—one approved record shouldn't stop the rest of the selection
+  const skipped: { id: number; error: string }[] = [];
+  const allowed: number[] = [];
+  (await validateRecords(existing)).forEach((record) => {
+    const error = checkReviewTransition(record, bulkAction.state, bulkAction.overrideReason);
+    if (error) skipped.push({ id: record.id, error });
+    else allowed.push(record.id);
+  });
+
+  const records =
+    allowed.length > 0
+      ? await repository.updateMany(allowed, reviewChanges(bulkAction.state, user, bulkAction.overrideReason), user)
+      : [];
+  const response: BulkResult = { records: await validateRecords(records), notFound, skipped };
+  res.status(200).json(response);
+}
+
+export default withRuleSetErrors(handler);
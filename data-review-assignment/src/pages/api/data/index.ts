@@ -0,0 +1,29 @@
+// pages/api/data/index.ts
+
+import { queryRecords } from "@/src/lib/queryRecords";
+import { ruleSetForDataset, withRuleSetErrors } from "@/src/lib/rules";
+import { getRepository } from "@/src/lib/store";
+import { parseTableQuery } from "@/src/lib/tableQuery";
+import { withValidation } from "@/src/lib/validation";
+import { NextApiRequest, NextApiResponse } from "next";
+
+// GET /api/data?dataset=sample&page=1&pageSize=25&sort=name&order=asc&q=houston&status=pending
+async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== "GET") {
+    res.setHeader("Allow", "GET");
+    return res.status(405).json({ error: `Method ${req.method} not allowed` });
+  }
+
+  const query = parseTableQuery(req.query);
+  const repository = getRepository();
+  if (!(await repository.getDataset(query.dataset))) {
+    return res.status(404).json({ error: `Dataset ${query.dataset} not found` });
+  }
+
+  // Validate against the real values (and the current rule file) on every request
+  const ruleSet = await ruleSetForDataset(query.dataset);
+  const records = (await repository.list(query.dataset)).map((record) => withValidation(record, ruleSet));
+  res.status(200).json(queryRecords(records, query));
+}
+
+export default withRuleSetErrors(handler);
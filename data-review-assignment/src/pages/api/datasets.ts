@@ -0,0 +1,15 @@
+// pages/api/datasets.ts
+
+import { getRepository } from "@/src/lib/store";
+import { NextApiRequest, NextApiResponse } from "next";
+
+// GET /api/datasets lists every dataset with its record count, newest first
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== "GET") {
+    res.setHeader("Allow", "GET");
+    return res.status(405).json({ error: `Method ${req.method} not allowed` });
+  }
+
+  const datasets = await getRepository().listDatasets();
+  res.status(200).json({ datasets: datasets.reverse() });
+}
@@ -0,0 +1,30 @@
+// pages/api/duplicates/index.ts
+
+import { SAMPLE_DATASET_ID } from "@/src/consts/datasets";
+import { findDuplicates } from "@/src/lib/duplicates";
+import { ruleSetForDataset, withRuleSetErrors } from "@/src/lib/rules";
+import { getRepository } from "@/src/lib/store";
+import { withValidation } from "@/src/lib/validation";
+import { NextApiRequest, NextApiResponse } from "next";
+
+// GET /api/duplicates?dataset=... returns clusters of likely duplicate records, strongest matches first
+async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== "GET") {
+    res.setHeader("Allow", "GET");
+    return res.status(405).json({ error: `Method ${req.method} not allowed` });
+  }
+
+  const datasetId = typeof req.query.dataset === "string" && req.query.dataset ? req.query.dataset : SAMPLE_DATASET_ID;
+  const repository = getRepository();
+  if (!(await repository.getDataset(datasetId))) {
+    return res.status(404).json({ error: `Dataset ${datasetId} not found` });
+  }
+
+  const clusters = findDuplicates(await repository.list(datasetId));
+  const ruleSet = await ruleSetForDataset(datasetId);
+  res.status(200).json({
+    clusters: clusters.map((cluster) => ({ ...cluster, records: cluster.records.map((record) => withValidation(record, ruleSet)) })),
+  });
+}
+
+export default withRuleSetErrors(handler);
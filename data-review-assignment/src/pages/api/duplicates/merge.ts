@@ -0,0 +1,91 @@
+// pages/api/duplicates/merge.ts
+
+import { MERGE_FIELDS, MergeField, STATUSES, Status } from "@/src/consts/fields";
+import { breaksApproval, reviewChanges } from "@/src/lib/review";
+import { getReviewer } from "@/src/lib/reviewer";
+import { validateRecords, withRuleSetErrors } from "@/src/lib/rules";
+import { getRepository } from "@/src/lib/store";
+import { MergeRequest } from "@/src/types/duplicate";
+import { NextApiRequest, NextApiResponse } from "next";
+
+const parseMergeRequest = (body: unknown): { request: MergeRequest } | { error: string } => {
+  if (!body || typeof body !== "object" || Array.isArray(body)) {
+    return { error: "Request body must be a JSON object" };
+  }
+
+  const { survivorId, absorbedIds, values } = body as { survivorId?: unknown; absorbedIds?: unknown; values?: unknown };
+  if (!Number.isInteger(survivorId)) {
+    return { error: "survivorId must be a record id" };
+  }
+  if (!Array.isArray(absorbedIds) || absorbedIds.length === 0 || !absorbedIds.every(Number.isInteger)) {
+    return { error: "absorbedIds must be a non-empty array of record ids" };
+  }
+  if (absorbedIds.includes(survivorId)) {
+    return { error: "A record can't absorb itself" };
+  }
+
+  const picked: MergeRequest["values"] = {};
+  for (const [field, value] of Object.entries((values as object) || {})) {
+    if (!MERGE_FIELDS.includes(field as MergeField)) {
+      return { error: `Field "${field}" can't be picked in a merge` };
+    }
+    if (typeof value !== "string") {
+      return { error: `Field "${field}" must be a string` };
+    }
+    if (field === "status" && !STATUSES.includes(value as Status)) {
+      return { error: `status must be one of ${STATUSES.join(", ")}` };
+    }
+    picked[field as MergeField] = value;
+  }
+
+  return { request: { survivorId: survivorId as number, absorbedIds: absorbedIds as number[], values: picked } };
+};
+
+// POST /api/duplicates/merge { survivorId, absorbedIds, values: { name: "...", ... } }
+// The survivor takes the picked values and keeps links to the absorbed records, which drop out of the dataset.
+// Responds with the survivor, revalidated.
+async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== "POST") {
+    res.setHeader("Allow", "POST");
+    return res.status(405).json({ error: `Method ${req.method} not allowed` });
+  }
+
+  const parsed = parseMergeRequest(req.body);
+  if ("error" in parsed) return res.status(400).json({ error: parsed.error });
+  const { survivorId, absorbedIds, values } = parsed.request;
+
+  // Check every record up front so a bad id can't leave a half-done merge behind
+  const repository = getRepository();
+  const survivor = await repository.get(survivorId);
+  if (!survivor) return res.status(404).json({ error: `Record ${survivorId} not found` });
+
+  const records = [];
+  for (const id of [survivorId, ...absorbedIds]) {
+    const record = id === survivorId ? survivor : await repository.get(id);
+    if (!record) return res.status(404).json({ error: `Record ${id} not found` });
+    if (record.mergedInto !== undefined) {
+      return res.status(400).json({ error: `Record ${id} was already merged into record ${record.mergedInto}` });
+    }
+    if (record.datasetId !== survivor.datasetId) {
+      return res.status(400).json({ error: "Records from different datasets can't be merged" });
+    }
+    records.push(record);
+  }
+
+  // A merge only picks between the records being merged—it can't bring in values from anywhere else
+  for (const [field, value] of Object.entries(values) as [MergeField, string][]) {
+    if (!records.some((record) => (record[field] || "") === value)) {
+      return res.status(400).json({ error: `The ${field} value doesn't come from any of the records being merged` });
+    }
+  }
+
+  // Picked values can bring in critical errors, which undoes an approval the same way an edit does
+  const user = getReviewer(req);
+  const [before, after] = await validateRecords([survivor, { ...survivor, ...values }]);
+  const reopen = breaksApproval(before, after) ? reviewChanges("in_review", user) : {};
+  const merged = await repository.merge(survivorId, absorbedIds, { ...values, ...reopen }, user);
+  if (!merged) return res.status(404).json({ error: "Some of the records no longer exist" });
+  res.status(200).json((await validateRecords([merged]))[0]);
+}
+
+export default withRuleSetErrors(handler);
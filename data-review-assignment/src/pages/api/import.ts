@@ -0,0 +1,119 @@
+// pages/api/import.ts
+
+import { DEFAULT_RULE_SET_ID } from "@/src/consts/datasets";
+import { IMPORT_FIELDS, ImportField } from "@/src/consts/fields";
+import { checkMapping, needsMapping, parseCsv, previewRows, suggestMapping, toRecords } from "@/src/lib/csvImport";
+import { allErrors, isClean } from "@/src/lib/errors";
+import { isRuleSetId, listRuleSets } from "@/src/lib/rules";
+import { getRepository } from "@/src/lib/store";
+import { withValidation } from "@/src/lib/validation";
+import { ColumnMapping, ImportMappingRequired, ImportResult } from "@/src/types/dataset";
+import { NextApiRequest, NextApiResponse } from "next";
+
+// Vendor files run to tens of thousands of rows, well past Next's 1mb default
+export const config = {
+  api: {
+    bodyParser: { sizeLimit: "25mb" },
+  },
+};
+
+interface ImportRequest {
+  name?: string;
+  csv: string;
+  mapping?: ColumnMapping; // Leave out on the first attempt—we'll suggest one if the headers need it
+  ruleSet: string; // Which file in rules/ validates the new dataset
+}
+
+const parseImportRequest = (body: unknown): { request: ImportRequest } | { error: string } => {
+  if (!body || typeof body !== "object" || Array.isArray(body)) {
+    return { error: "Request body must be a JSON object" };
+  }
+
+  const { name, csv, mapping, ruleSet = DEFAULT_RULE_SET_ID } = body as { [key: string]: unknown };
+  if (typeof csv !== "string" || !csv.trim()) {
+    return { error: "CSV contents are required" };
+  }
+  if (name !== undefined && typeof name !== "string") {
+    return { error: "name must be a string" };
+  }
+  if (typeof ruleSet !== "string") {
+    return { error: "ruleSet must be a rule set id" };
+  }
+
+  // { field: header }—checkMapping makes sure the headers are actually in the file once it's parsed
+  if (mapping !== undefined) {
+    if (!mapping || typeof mapping !== "object" || Array.isArray(mapping)) {
+      return { error: "mapping must be an object of field: column header" };
+    }
+    for (const [field, header] of Object.entries(mapping)) {
+      if (!IMPORT_FIELDS.includes(field as ImportField)) {
+        return { error: `Unknown field "${field}"` };
+      }
+      if (typeof header !== "string") {
+        return { error: `mapping.${field} must be a column header` };
+      }
+    }
+  }
+
+  return { request: { name, csv, mapping: mapping as ColumnMapping | undefined, ruleSet } };
+};
+
+// POST /api/import { name, csv, mapping?, ruleSet? }
+// Responds with ImportMappingRequired when the columns need confirming, or 201 + ImportResult once the dataset exists
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== "POST") {
+    res.setHeader("Allow", "POST");
+    return res.status(405).json({ error: `Method ${req.method} not allowed` });
+  }
+
+  const parsedRequest = parseImportRequest(req.body);
+  if ("error" in parsedRequest) return res.status(400).json({ error: parsedRequest.error });
+  const { name, csv, mapping, ruleSet: ruleSetId } = parsedRequest.request;
+
+  // Only rule sets that load cleanly can be picked—see GET /api/rules
+  const ruleSet = isRuleSetId(ruleSetId) ? (await listRuleSets()).ruleSets.find((set) => set.id === ruleSetId) : undefined;
+  if (!ruleSet) return res.status(400).json({ error: `Rule set ${ruleSetId} doesn't exist or has errors` });
+
+  const parsed = parseCsv(csv);
+  if (parsed.headers.length === 0 || parsed.rows.length === 0) {
+    return res.status(400).json({ error: "The CSV has no header row or no data rows" });
+  }
+
+  if (!mapping && needsMapping(parsed.headers)) {
+    const response: ImportMappingRequired = {
+      needsMapping: true,
+      headers: parsed.headers,
+      suggestedMapping: suggestMapping(parsed.headers),
+      preview: previewRows(parsed),
+    };
+    return res.status(200).json(response);
+  }
+
+  const columnMapping = mapping || suggestMapping(parsed.headers);
+  const mappingError = checkMapping(columnMapping, parsed.headers);
+  if (mappingError) return res.status(400).json({ error: mappingError });
+
+  const converted = toRecords(parsed.rows, columnMapping);
+  if ("error" in converted) return res.status(400).json({ error: converted.error });
+  const { records } = converted;
+  const dataset = await getRepository().createDataset(name?.trim() || "Imported data", records, ruleSet.id);
+
+  // Validate every row up front so reviewers know what they're in for before opening the dataset
+  const summary: ImportResult["summary"] = {
+    rowCount: records.length,
+    rowsWithErrors: 0,
+    blocker: 0,
+    critical: 0,
+    warning: 0,
+    info: 0,
+    skippedRows: parsed.skippedRows,
+  };
+  records.forEach((record) => {
+    const validated = withValidation({ ...record, id: 0 }, ruleSet);
+    if (!isClean(validated)) summary.rowsWithErrors++;
+    allErrors(validated).forEach((error) => summary[error.severity]++);
+  });
+
+  const response: ImportResult = { needsMapping: false, dataset, summary };
+  res.status(201).json(response);
+}
@@ -0,0 +1,14 @@
+// pages/api/rules.ts
+
+import { listRuleSets } from "@/src/lib/rules";
+import { NextApiRequest, NextApiResponse } from "next";
+
+// GET /api/rules lists every rule set in rules/, the default first, plus any files that failed to load
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== "GET") {
+    res.setHeader("Allow", "GET");
+    return res.status(405).json({ error: `Method ${req.method} not allowed` });
+  }
+
+  res.status(200).json(await listRuleSets());
+}
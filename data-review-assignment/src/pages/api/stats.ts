@@ -0,0 +1,30 @@
+// pages/api/stats.ts
+
+import { SAMPLE_DATASET_ID } from "@/src/consts/datasets";
+import { ruleSetForDataset, withRuleSetErrors } from "@/src/lib/rules";
+import { computeStats } from "@/src/lib/stats";
+import { getRepository } from "@/src/lib/store";
+import { NextApiRequest, NextApiResponse } from "next";
+
+// GET /api/stats?dataset=sample—error counts by field and severity, error rates by city and status,
+// how many records are clean, and how that's changed day by day. Backs the /dashboard page.
+async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== "GET") {
+    res.setHeader("Allow", "GET");
+    return res.status(405).json({ error: `Method ${req.method} not allowed` });
+  }
+
+  const datasetId = typeof req.query.dataset === "string" && req.query.dataset ? req.query.dataset : SAMPLE_DATASET_ID;
+  const repository = getRepository();
+  const dataset = await repository.getDataset(datasetId);
+  if (!dataset) return res.status(404).json({ error: `Dataset ${datasetId} not found` });
+
+  const [records, changes, ruleSet] = await Promise.all([
+    repository.list(datasetId, { includeMerged: true }),
+    repository.datasetHistory(datasetId),
+    ruleSetForDataset(datasetId),
+  ]);
+  res.status(200).json(computeStats(dataset, records, changes, ruleSet));
+}
+
+export default withRuleSetErrors(handler);
@@ -0,0 +1,42 @@
+// pages/api/views/[id].ts
+
+import { getReviewer } from "@/src/lib/reviewer";
+import { getRepository } from "@/src/lib/store";
+import { parseViewRequest } from "@/src/lib/views";
+import { NextApiRequest, NextApiResponse } from "next";
+
+// PUT /api/views/[id] { name?, shared?, settings? } changes a view, DELETE /api/views/[id] removes it.
+// Only the reviewer who saved a view can do either—shared views are read-only for everyone else.
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== "PUT" && req.method !== "DELETE") {
+    res.setHeader("Allow", "PUT, DELETE");
+    return res.status(405).json({ error: `Method ${req.method} not allowed` });
+  }
+
+  const id = String(req.query.id);
+  const user = getReviewer(req);
+  const repository = getRepository();
+  const view = await repository.getView(id);
+  if (!view) return res.status(404).json({ error: `View ${id} not found` });
+  if (view.owner !== user) return res.status(403).json({ error: `Only ${view.owner} can change the view "${view.name}"` });
+
+  if (req.method === "DELETE") {
+    await repository.deleteView(id);
+    return res.status(204).end();
+  }
+
+  const parsed = parseViewRequest(req.body, true);
+  if ("error" in parsed) return res.status(400).json({ error: parsed.error });
+  const { name } = parsed.request;
+
+  if (name) {
+    const clash = (await repository.listViews(user)).find(
+      (other) => other.id !== id && other.owner === user && other.name.toLowerCase() === name.toLowerCase()
+    );
+    if (clash) return res.status(409).json({ error: `You already have a view called "${name}"` });
+  }
+
+  const updated = await repository.updateView(id, parsed.request);
+  if (!updated) return res.status(404).json({ error: `View ${id} not found` });
+  res.status(200).json(updated);
+}
@@ -0,0 +1,33 @@
+// pages/api/views/index.ts
+
+import { getReviewer } from "@/src/lib/reviewer";
+import { getRepository } from "@/src/lib/store";
+import { parseViewRequest } from "@/src/lib/views";
+import { ViewRequest } from "@/src/types/view";
+import { NextApiRequest, NextApiResponse } from "next";
+
+// GET /api/views lists the reviewer's saved views plus everyone's shared ones.
+// POST /api/views { name, shared, settings } saves a new one for the reviewer (X-Reviewer header).
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  const repository = getRepository();
+  const user = getReviewer(req);
+
+  if (req.method === "GET") {
+    return res.status(200).json({ views: await repository.listViews(user) });
+  }
+
+  if (req.method === "POST") {
+    const parsed = parseViewRequest(req.body, false);
+    if ("error" in parsed) return res.status(400).json({ error: parsed.error });
+    const request = parsed.request as ViewRequest;
+
+    const existing = await repository.listViews(user);
+    if (existing.some((view) => view.owner === user && view.name.toLowerCase() === request.name.toLowerCase())) {
+      return res.status(409).json({ error: `You already have a view called "${request.name}"` });
+    }
+    return res.status(201).json(await repository.createView(user, request));
+  }
+
+  res.setHeader("Allow", "GET, POST");
+  return res.status(405).json({ error: `Method ${req.method} not allowed` });
+}
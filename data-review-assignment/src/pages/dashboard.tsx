@@ -0,0 +1,23 @@
+// pages/dashboard.tsx
+
+import { useRouter } from "next/router";
+import Head from "next/head";
+import QualityDashboard from "../components/QualityDashboard";
+import { SAMPLE_DATASET_ID } from "@/src/consts/datasets";
+
+export default function Dashboard() {
+  const router = useRouter();
+  const dataset = typeof router.query.dataset === "string" ? router.query.dataset : SAMPLE_DATASET_ID;
+
+  // The query string is empty on the first render of a static page—wait for the real one
+  if (!router.isReady) return null;
+
+  return (
+    <div>
+      <Head>
+        <title>Data quality | Tom&apos;s Data Review</title>
+      </Head>
+      <QualityDashboard datasetId={dataset} />
+    </div>
+  );
+}
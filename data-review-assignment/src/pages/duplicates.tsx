@@ -0,0 +1,23 @@
+// pages/duplicates.tsx
+
+import { useRouter } from "next/router";
+import Head from "next/head";
+import DuplicateReview from "../components/DuplicateReview";
+import { SAMPLE_DATASET_ID } from "@/src/consts/datasets";
+
+export default function Duplicates() {
+  const router = useRouter();
+  const dataset = typeof router.query.dataset === "string" ? router.query.dataset : SAMPLE_DATASET_ID;
+
+  // The query string is empty on the first render of a static page—wait for the real one
+  if (!router.isReady) return null;
+
+  return (
+    <div>
+      <Head>
+        <title>Duplicates | Tom&apos;s Data Review</title>
+      </Head>
+      <DuplicateReview datasetId={dataset} />
+    </div>
+  );
+}
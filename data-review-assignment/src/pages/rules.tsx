@@ -0,0 +1,15 @@
+// pages/rules.tsx
+
+import Head from "next/head";
+import RulesOverview from "../components/RulesOverview";
+
+export default function Rules() {
+  return (
+    <div>
+      <Head>
+        <title>Validation rules | Tom&apos;s Data Review</title>
+      </Head>
+      <RulesOverview />
+    </div>
+  );
+}
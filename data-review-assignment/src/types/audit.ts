@@ -0,0 +1,28 @@
+// types/audit.ts
+
+import { Record } from "@/src/types/record";
+
+// What a field held before or after a change—null when it wasn't set
+export type AuditValue = string | number | number[] | null;
+
+// Which kind of mutation wrote the entry
+export type ChangeSource = "edit" | "bulk" | "merge";
+
+// One row of the append-only change log: a single field of a single record changing once
+export interface ChangeEntry {
+    id: number; // Sequential across the whole log, so it doubles as the order changes happened in
+    recordId: number;
+    field: string;
+    oldValue: AuditValue;
+    newValue: AuditValue;
+    user: string; // From the X-Reviewer header, "anonymous" when there isn't one
+    timestamp: string; // ISO timestamp
+    source: ChangeSource;
+}
+
+// Response from GET /api/data/[id]/history
+export interface RecordHistory {
+    entries: ChangeEntry[]; // Newest first
+    asOf?: string; // Set when the request asked for a point in time...
+    record?: Record; // ...with the record as it was then
+}
@@ -0,0 +1,39 @@
+// types/dataset.ts
+
+import { ImportField } from "@/src/consts/fields";
+
+// Every import becomes its own dataset; the mock data lives in the "sample" dataset
+export interface Dataset {
+    id: string;
+    name: string;
+    source: "sample" | "import";
+    createdAt: string; // ISO timestamp
+    recordCount: number;
+    ruleSet?: string; // Which file in rules/ validates it—"default" when missing
+}
+
+// Response from POST /api/import when the CSV headers don't line up with our fields
+export interface ImportMappingRequired {
+    needsMapping: true;
+    headers: string[];
+    suggestedMapping: ColumnMapping;
+    preview: { [header: string]: string }[]; // First few rows, so reviewers can see what each column holds
+}
+
+// Response from POST /api/import once the dataset has been created
+export interface ImportResult {
+    needsMapping: false;
+    dataset: Dataset;
+    summary: {
+        rowCount: number;
+        rowsWithErrors: number;
+        blocker: number;
+        critical: number;
+        warning: number;
+        info: number; // Notes, not problems—they don't make a row count towards rowsWithErrors
+        skippedRows: number; // Rows the CSV parser couldn't make sense of
+    };
+}
+
+// Record field -> CSV header it should be read from
+export type ColumnMapping = Partial<{ [field in ImportField]: string }>;
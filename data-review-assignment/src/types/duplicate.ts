@@ -0,0 +1,21 @@
+// types/duplicate.ts
+
+import { MergeField } from "@/src/consts/fields";
+import { Record } from "@/src/types/record";
+
+// The fields the duplicate detector compares
+export type DuplicateField = "name" | "email" | "phone" | "street" | "city" | "zipcode";
+
+// A group of records that probably describe the same person—see lib/duplicates.ts for how they're scored
+export interface DuplicateCluster {
+    records: Record[];
+    score: number; // 0-1, the strongest match between two records in the cluster
+    matchedOn: DuplicateField[]; // Fields that agree on every link in the cluster
+}
+
+// Body of POST /api/duplicates/merge
+export interface MergeRequest {
+    survivorId: number;
+    absorbedIds: number[];
+    values: Partial<{ [field in MergeField]: string }>; // The value the reviewer picked for each field
+}
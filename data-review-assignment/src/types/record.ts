@@ -0,0 +1,85 @@
+// types/record.ts
+
+import { EditableField, Status } from "@/src/consts/fields";
+import { PhoneLineType } from "@/src/consts/phoneCountries";
+import { ReviewState } from "@/src/consts/review";
+import { Severity } from "@/src/consts/severities";
+import { FacetCounts } from "@/src/lib/tableQuery";
+
+// A one-click fix for an error: accepting it sets the field to `value`
+export interface FixSuggestion {
+    label: string; // e.g. "Format as 917-458-1154"
+    value: string;
+    field?: EditableField; // When the fix goes into another field than the one with the error, e.g. city for a zipcode mismatch
+}
+
+export interface ValidationError {
+    code: string; // Stable, machine-readable reason, e.g. "email.disposable"—the message is for people
+    message: string;
+    severity: Severity;
+    suggestions?: FixSuggestion[];
+    fields?: ValidatedField[]; // Cross-field errors only: every field involved—the same error is listed under each
+    relation?: string; // Cross-field errors only: the rule in words, e.g. "When street is filled in, zipcode is required"
+}
+
+export interface Record {
+    id: number;
+    datasetId?: string; // Which dataset the record belongs to—see types/dataset.ts
+    name: string;
+    email: string;
+    street?: string;
+    city?: string;
+    zipcode?: string;
+    phone?: string;
+    status: string;
+    reviewState?: ReviewState; // Missing means "unreviewed"—see lib/review.ts for the allowed transitions
+    reviewedBy?: string; // Who last moved the review state...
+    reviewedAt?: string; // ...and when (ISO timestamp)
+    overrideReason?: string; // Why it was approved despite critical errors, when it was
+    mergedFrom?: number[]; // Ids of the duplicates this record absorbed (and whatever they had absorbed)
+    mergedInto?: number; // Set on absorbed records—they're kept for the link but drop out of their dataset
+    errors?: RecordErrors; // Computed by the validation engine at request time, never stored
+    normalized?: NormalizedValues; // Same—cleaned-up versions of the raw values, for display and export
+    score?: number; // Same—0–100 quality score from the errors, see lib/errors.ts
+}
+
+export interface NormalizedPhone {
+    e164: string; // +19174581154
+    country: string; // ISO 3166-1 alpha-2, e.g. "US"
+    lineType: PhoneLineType;
+}
+
+export interface NormalizedValues {
+    phone?: NormalizedPhone; // Only set when the number could be parsed
+}
+
+// The fields rule files can put rules on (see types/rules.ts)
+export type ValidatedField = "name" | "email" | "phone" | "zipcode" | "street" | "city" | "status";
+
+// Every problem found on each field, worst first. Fields without errors are left out rather than given an empty list.
+export type RecordErrors = Partial<{ [field in ValidatedField]: ValidationError[] }>;
+
+// Shape returned by GET /api/data—one page of records plus what the table needs to paginate
+export interface PaginatedRecords {
+    records: Record[];
+    total: number;
+    page: number;
+    pageSize: number;
+    pageCount: number;
+    facets: FacetCounts; // Live counts for the filter panel, given everything else that's selected
+    reviewProgress: ReviewCounts; // Across the whole dataset, ignoring search and filters
+}
+
+// What POST /api/data/bulk can do to a selection of records
+export type BulkAction =
+    | { type: "setStatus"; status: Status }
+    | { type: "setReviewState"; state: ReviewState; overrideReason?: string };
+
+// Response from POST /api/data/bulk
+export interface BulkResult {
+    records: Record[]; // The updated records, revalidated
+    notFound: number[];
+    skipped: { id: number; error: string }[]; // Review moves that weren't allowed, and merged-away records—those are unchanged
+}
+
+export type ReviewCounts = { [state in ReviewState]: number };
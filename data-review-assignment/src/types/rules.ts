@@ -0,0 +1,98 @@
+// types/rules.ts
+// The declarative rule format—see rules/default.json for a full example and lib/rules.ts for how files are loaded
+
+import { Severity } from "@/src/consts/severities";
+import { ValidatedField } from "@/src/types/record";
+
+// Built-in checks too involved for a regex (see lib/validation.ts). They bring their own messages and severities.
+export const RULE_CHECKS = ["email", "phone", "zipcodeLocation"] as const;
+export type RuleCheck = (typeof RULE_CHECKS)[number];
+
+// Built-in fixers a regex rule can offer as a one-click suggestion
+export const RULE_FIXES = ["zipcode"] as const;
+export type RuleFix = (typeof RULE_FIXES)[number];
+
+// What a cross-field rule asks of its fields
+export const CROSS_FIELD_REQUIREMENTS = ["all", "any", "all-or-none"] as const;
+export type CrossFieldRequirement = (typeof CROSS_FIELD_REQUIREMENTS)[number];
+
+export const RULE_TYPES = ["required", "regex", "length", "lookup", "cross-field", "check"] as const;
+export type RuleType = (typeof RULE_TYPES)[number];
+
+interface BaseRule {
+    id: string; // Unique within the file, and the error code when the rule fails
+    field: ValidatedField; // Where the error shows up
+    // Placeholders: {field}, {value}, plus the rule's own settings ({min}, {max}, {fields}...)
+    message: string;
+    severity: Severity;
+}
+
+// The value must be non-empty
+export interface RequiredRule extends BaseRule {
+    type: "required";
+}
+
+// A non-empty value must match the pattern—or, with `negate`, must not (e.g. flag PO boxes)
+export interface RegexRule extends BaseRule {
+    type: "regex";
+    pattern: string;
+    flags?: string;
+    negate?: boolean;
+    fix?: RuleFix;
+}
+
+// A non-empty value must be between min and max characters long (either bound can be left out)
+export interface LengthRule extends BaseRule {
+    type: "length";
+    min?: number;
+    max?: number;
+}
+
+// A non-empty value must be one of the listed values, ignoring case
+export interface LookupRule extends BaseRule {
+    type: "lookup";
+    values: string[];
+}
+
+// A condition on a record: the field is filled in, or with `equals`, has that value (ignoring case)
+export interface FieldCondition {
+    field: ValidatedField;
+    equals?: string;
+}
+
+// A rule about several fields at once, e.g. "active customers need a phone" or "city and zipcode go together".
+// When every `when` condition holds, `fields` must be all filled in, at least one filled in, or all-or-none.
+// The error goes on every field involved, conditions included, so each of those cells shows it.
+export interface CrossFieldRule extends Omit<BaseRule, "field"> {
+    type: "cross-field";
+    fields: ValidatedField[];
+    require: CrossFieldRequirement;
+    when?: FieldCondition[];
+}
+
+// Runs a built-in check. `message` and `severity` are only used by checks that don't supply their own.
+export interface CheckRule extends Omit<BaseRule, "message" | "severity"> {
+    type: "check";
+    check: RuleCheck;
+    message?: string;
+    severity?: Severity;
+}
+
+export type Rule = RequiredRule | RegexRule | LengthRule | LookupRule | CrossFieldRule | CheckRule;
+
+// The rules that look at one field
+export type FieldRule = Exclude<Rule, CrossFieldRule>;
+
+// One file in rules/. Rules for the same field run in file order, and every one that fails is reported.
+export interface RuleSet {
+    id: string; // The file name without .json
+    name: string;
+    description?: string;
+    rules: Rule[];
+}
+
+// Response from GET /api/rules. Files that don't parse are listed with the reason instead of being skipped quietly.
+export interface RuleSetList {
+    ruleSets: RuleSet[];
+    invalid: { id: string; error: string }[];
+}
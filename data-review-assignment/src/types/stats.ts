@@ -0,0 +1,39 @@
+// types/stats.ts
+
+import { Severity } from "@/src/consts/severities";
+import { ValidatedField } from "@/src/types/record";
+
+export type SeverityCounts = { [severity in Severity]: number };
+
+// How many errors of each severity one field has across the dataset
+export interface FieldStats {
+    field: ValidatedField;
+    errors: SeverityCounts;
+}
+
+// Share of records with errors among the ones with a given city or status
+export interface ErrorRate {
+    value: string; // "(none)" for records without a city
+    records: number;
+    withErrors: number;
+}
+
+// The dataset as it stood at the end of one day, revalidated against today's rules
+export interface TrendPoint {
+    date: string; // YYYY-MM-DD, UTC
+    records: number;
+    clean: number;
+    errors: number;
+}
+
+// Response from GET /api/stats. "Clean" means no errors—info notes don't count, same as the import summary.
+export interface DatasetStats {
+    dataset: string;
+    records: number;
+    clean: number;
+    errors: SeverityCounts; // A cross-field error counts once here...
+    byField: FieldStats[]; // ...and once under each field it involves
+    byCity: ErrorRate[];
+    byStatus: ErrorRate[];
+    trend: TrendPoint[]; // One point per day with edits, oldest first, plus today
+}
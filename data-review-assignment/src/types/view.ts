@@ -0,0 +1,23 @@
+// types/view.ts
+
+import { TableColumn } from "@/src/consts/columns";
+import { TableQuery } from "@/src/lib/tableQuery";
+
+// What a saved view restores: everything about the table except which dataset and page it's on
+export interface ViewSettings extends Pick<TableQuery, "search" | "filters" | "facets" | "sort"> {
+    pageSize: number;
+    columns: TableColumn[]; // The visible ones, in TABLE_COLUMNS order
+}
+
+export interface SavedView {
+    id: string;
+    name: string; // Unique per owner
+    owner: string; // The reviewer who saved it (X-Reviewer header)
+    shared: boolean; // Shared views show up for everyone, but only the owner can change or delete them
+    settings: ViewSettings;
+    createdAt: string; // ISO timestamp
+    updatedAt: string;
+}
+
+// Body of POST /api/views, and (every key optional) PUT /api/views/[id]
+export type ViewRequest = Pick<SavedView, "name" | "shared" | "settings">;